@@ -1,3 +1,4 @@
 export * from "./services";
 export * from "./libs";
 export * from "./test/utils";
+export * from "./test/simulator";
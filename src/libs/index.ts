@@ -1,2 +1,6 @@
 export * from "./logger";
 export * from "./metadata";
+export * from "./listener";
+export * from "./journal";
+
+export * from "./merkle";
\ No newline at end of file
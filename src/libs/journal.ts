@@ -0,0 +1,170 @@
+import fs from "fs";
+import path from "path";
+
+
+// "resigned": Expired and replaced with re-signed batch
+export type JournalBatchState = "pending" | "announced" | "confirmed" | "failed" | "expired" | "resigned";
+
+export interface JournalCosignature {
+    parentHash: string;
+    signature: string;
+    signerPublicKey: string;
+    // [ lower, higher ]
+    version: number[];
+}
+
+export interface JournalEntry {
+    hash: string;
+    payload: string;
+    signerPublicKey: string;
+    type: number;
+    networkType: number;
+    cosignatures: JournalCosignature[];
+    // [ lower, higher ]
+    maxFee: number[];
+    // Order of the batch in the journal
+    index: number;
+    state: JournalBatchState;
+    error?: string;
+    updated_at: number;
+}
+
+// Persistent storage of batch journal. Entries are identified by hash.
+export interface JournalStore {
+    list(): Promise<JournalEntry[]>;
+    put(entries: JournalEntry[]): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export class MemoryJournalStore implements JournalStore {
+
+    private readonly entries = new Map<string, JournalEntry>();
+
+    public async list() {
+        return [ ...this.entries.values() ]
+            .sort((a, b) => a.index - b.index)
+            .map((entry) => ({ ...entry }));
+    }
+
+    public async put(entries: JournalEntry[]) {
+        entries.forEach((entry) => this.entries.set(entry.hash, { ...entry }));
+    }
+
+    public async clear() {
+        this.entries.clear();
+    }
+
+}
+
+// Change of batch state that is appended to the journal file.
+type JournalStateChange = Pick<JournalEntry, "hash" | "state" | "error" | "updated_at">;
+
+// Stores journal into single file of JSON lines.
+// The first line is a header, and the followings are entries or state changes of them.
+// Entries are written once and only their states are appended after that, the file is compacted on load.
+export class FileJournalStore implements JournalStore {
+
+    private static VERSION = "2.0";
+
+    private entries?: Map<string, JournalEntry>;
+    // Whether the file with header exists
+    private created = false;
+
+    public constructor(public readonly filePath: string) {}
+
+    private async load() {
+        if (!this.entries) {
+            const entries = new Map<string, JournalEntry>();
+            const data = await fs.promises.readFile(this.filePath, "utf-8")
+                .catch((e) => {
+                    if (e.code === "ENOENT") {
+                        return undefined;
+                    }
+                    throw e;
+                });
+            if (data !== undefined) {
+                const lines = data.split("\n").filter((line) => line.trim());
+                lines.forEach((line, index) => {
+                    let record: any;
+                    try {
+                        record = JSON.parse(line);
+                    } catch (e) {
+                        // The last line may be broken by crash while appending.
+                        if (index === lines.length - 1) {
+                            return;
+                        }
+                        throw e;
+                    }
+                    if (index === 0) {
+                        if (record.version !== FileJournalStore.VERSION) {
+                            throw new Error(`Version mismatched: ${record.version}`);
+                        }
+                    } else if (record.payload) {
+                        entries.set(record.hash, record);
+                    } else {
+                        const entry = entries.get(record.hash);
+                        if (entry) {
+                            entry.state = record.state;
+                            entry.error = record.error;
+                            entry.updated_at = record.updated_at;
+                        }
+                    }
+                });
+                await this.compact(entries);
+                this.created = true;
+            }
+            this.entries = entries;
+        }
+        return this.entries;
+    }
+
+    // Write to temporary file and rename it, so that the journal won't be broken by crash.
+    private async compact(entries: Map<string, JournalEntry>) {
+        const tempPath = `${this.filePath}.tmp`;
+        const records = [ { version: FileJournalStore.VERSION }, ...entries.values() ];
+        await fs.promises.writeFile(tempPath, this.toLines(records), "utf-8");
+        await fs.promises.rename(tempPath, this.filePath);
+    }
+
+    private toLines(records: object[]) {
+        return records.map((record) => `${JSON.stringify(record)}\n`).join("");
+    }
+
+    public async list() {
+        return [ ...(await this.load()).values() ]
+            .sort((a, b) => a.index - b.index)
+            .map((entry) => ({ ...entry }));
+    }
+
+    public async put(entries: JournalEntry[]) {
+        const current = await this.load();
+        const records = new Array<object>();
+        if (!this.created) {
+            await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+            records.push({ version: FileJournalStore.VERSION });
+            this.created = true;
+        }
+        for (const entry of entries) {
+            const change: JournalStateChange = {
+                hash: entry.hash,
+                state: entry.state,
+                error: entry.error,
+                updated_at: entry.updated_at,
+            };
+            records.push(current.has(entry.hash) ? change : entry);
+            current.set(entry.hash, { ...entry });
+        }
+        await fs.promises.appendFile(this.filePath, this.toLines(records), "utf-8");
+    }
+
+    public async clear() {
+        this.entries = new Map();
+        this.created = false;
+        await fs.promises.unlink(this.filePath).catch((e) => {
+            if (e.code !== "ENOENT") {
+                throw e;
+            }
+        });
+    }
+
+}
@@ -0,0 +1,195 @@
+import { Subscription } from "rxjs";
+import { IListener, RepositoryFactory } from "symbol-sdk";
+import { Logger } from "./logger";
+
+
+export interface ResilientListenerConfig {
+    // "polling" never opens WebSocket (for environments where WebSocket is blocked)
+    mode: "websocket" | "polling";
+    reconnect_interval_secs: number;
+    // Falls back to polling mode after failed reconnections exceed this count
+    max_reconnects: number;
+    polling_interval_secs: number;
+}
+
+export interface ListenerWatch {
+    // Subscribe listener channels. Called on every (re)connection of WebSocket.
+    subscribe?: (listener: IListener) => Subscription[];
+    // Check current state over HTTP. Called on watch, after every reconnection, and periodically in polling mode.
+    check?: () => Promise<void>;
+}
+
+interface WatchEntry {
+    watch: ListenerWatch;
+    subscriptions: Subscription[];
+    checking: boolean;
+}
+
+// Listener layer that survives disconnection of WebSocket.
+export class ResilientListener {
+
+    public readonly config: ResilientListenerConfig = {
+        mode: "websocket",
+        reconnect_interval_secs: 3,
+        max_reconnects: 10,
+        polling_interval_secs: 5,
+    };
+
+    private listener?: IListener;
+    private readonly entries = new Set<WatchEntry>();
+    private reconnectTimer?: ReturnType<typeof setTimeout>;
+    private pollingTimer?: ReturnType<typeof setInterval>;
+    private numReconnects = 0;
+    private opened = false;
+
+    public constructor(
+        private readonly repositoryFactory: RepositoryFactory,
+        cfg?: Partial<ResilientListenerConfig>,
+    ) {
+        this.config = { ...this.config, ...cfg };
+    }
+
+    public get mode() {
+        return this.config.mode;
+    }
+
+    public isOpen() {
+        return this.opened;
+    }
+
+    public async open() {
+        if (this.opened) {
+            return;
+        }
+        this.opened = true;
+        if (this.config.mode === "websocket") {
+            try {
+                await this.connect();
+            } catch (e) {
+                // Retry and fall back to polling in the same way as reconnection
+                Logger.warn(`Failed to connect WebSocket: ${e}`);
+                this.scheduleReconnect();
+            }
+        } else {
+            this.startPolling();
+        }
+    }
+
+    public close() {
+        this.opened = false;
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = undefined;
+        }
+        this.stopPolling();
+        this.entries.forEach((entry) => this.unsubscribe(entry));
+        this.entries.clear();
+        this.disconnect();
+    }
+
+    // Returns a function to stop watching.
+    public watch(watch: ListenerWatch) {
+        const entry: WatchEntry = { watch, subscriptions: [], checking: false };
+        this.entries.add(entry);
+        if (this.listener) {
+            this.subscribe(entry, this.listener);
+        }
+        this.check(entry);
+
+        return () => {
+            this.unsubscribe(entry);
+            this.entries.delete(entry);
+        };
+    }
+
+    private async connect() {
+        const listener = this.repositoryFactory.createListener();
+        await listener.open((event) => {
+            if (this.listener !== listener) {
+                return;
+            }
+            Logger.warn(`WebSocket closed unexpectedly (code=${event?.code}, reason=${event?.reason}). Reconnecting...`);
+            this.listener = undefined;
+            this.entries.forEach((entry) => this.unsubscribe(entry));
+            this.scheduleReconnect();
+        });
+        this.listener = listener;
+    }
+
+    private disconnect() {
+        const listener = this.listener;
+        this.listener = undefined;
+        if (listener?.isOpen()) {
+            listener.close();
+        }
+    }
+
+    private scheduleReconnect() {
+        if (!this.opened || this.reconnectTimer) {
+            return;
+        }
+        this.reconnectTimer = setTimeout(async () => {
+            this.reconnectTimer = undefined;
+            if (!this.opened) {
+                return;
+            }
+            try {
+                await this.connect();
+                Logger.info("WebSocket reconnected.");
+                this.numReconnects = 0;
+                // Notifications may be lost while disconnected.
+                this.entries.forEach((entry) => {
+                    this.listener && this.subscribe(entry, this.listener);
+                    this.check(entry);
+                });
+            } catch (e) {
+                if (++this.numReconnects > this.config.max_reconnects) {
+                    Logger.warn(`Failed to reconnect WebSocket ${this.config.max_reconnects} times. Fall back to polling.`);
+                    this.config.mode = "polling";
+                    this.startPolling();
+                } else {
+                    Logger.warn(`Failed to reconnect WebSocket: ${e}`);
+                    this.scheduleReconnect();
+                }
+            }
+        }, this.config.reconnect_interval_secs * 1000);
+    }
+
+    private startPolling() {
+        if (this.pollingTimer) {
+            return;
+        }
+        this.pollingTimer = setInterval(() => {
+            this.entries.forEach((entry) => this.check(entry));
+        }, this.config.polling_interval_secs * 1000);
+    }
+
+    private stopPolling() {
+        if (this.pollingTimer) {
+            clearInterval(this.pollingTimer);
+            this.pollingTimer = undefined;
+        }
+    }
+
+    private subscribe(entry: WatchEntry, listener: IListener) {
+        this.unsubscribe(entry);
+        entry.subscriptions = entry.watch.subscribe?.(listener) || [];
+    }
+
+    private unsubscribe(entry: WatchEntry) {
+        entry.subscriptions.splice(0).forEach((subscription) => subscription.unsubscribe());
+    }
+
+    private check(entry: WatchEntry) {
+        if (!entry.watch.check || entry.checking) {
+            return;
+        }
+        entry.checking = true;
+        entry.watch.check()
+            .catch((e) => Logger.warn(`Failed to check state: ${e}`))
+            .finally(() => {
+                entry.checking = false;
+            });
+    }
+
+}
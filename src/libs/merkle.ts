@@ -0,0 +1,93 @@
+import { sha3_256 } from "js-sha3";
+import { Convert, MerkleStateInfo } from "symbol-sdk";
+import { BinMetadataEntry } from "./metadata";
+
+
+export interface MerkleProofResult {
+    valid: boolean;
+    // Why the proof is invalid
+    reason?: string;
+}
+
+// Part of block header that anchors the state
+export interface MerkleProofAnchor {
+    stateHash: string;
+    stateHashSubCacheMerkleRoots: string[];
+}
+
+// Verify Patricia merkle proofs of chain state without trusting the node.
+export namespace MerkleProof {
+
+    const hash = (data: Uint8Array) => sha3_256.create().update(data).hex().toUpperCase();
+
+    const nibblesOf = (path: string, nibbleCount: number) => path.substring(0, nibbleCount).toUpperCase();
+
+    // Position of the sub cache in stateHashSubCacheMerkleRoots (the order of catapult cache plugins)
+    export const METADATA_SUB_CACHE_INDEX = 8;
+
+    // Verify that the serialized state is in the tree and the tree is anchored in the block.
+    // Arguments:
+    //   - key: Key of the state (e.g. composite hash of metadata). The tree path is SHA3-256 of the key.
+    //   - serializedState: Serialized state entry. The leaf value is SHA3-256 of it.
+    //   - merkle: Merkle path from the root to the leaf.
+    //   - anchor: Block that has the state hash.
+    //   - subCacheIndex: Position of the sub cache merkle root that the tree must have (e.g. METADATA_SUB_CACHE_INDEX)
+    export const verify = (
+        key: string,
+        serializedState: Uint8Array,
+        merkle: MerkleStateInfo,
+        anchor: MerkleProofAnchor,
+        subCacheIndex: number,
+    ): MerkleProofResult => {
+        const { branches, leaf } = merkle.tree;
+        if (!leaf) {
+            return { valid: false, reason: "Leaf not found" };
+        }
+
+        // State hash of the block must be made of sub cache merkle roots.
+        const roots = anchor.stateHashSubCacheMerkleRoots.map((root) => root.toUpperCase());
+        if (hash(Convert.hexToUint8(roots.join(""))) !== anchor.stateHash.toUpperCase()) {
+            return { valid: false, reason: "Block state hash mismatched" };
+        }
+
+        if (hash(serializedState) !== leaf.value.toUpperCase()) {
+            return { valid: false, reason: "State hash mismatched" };
+        }
+
+        // Walk from the root and check that every node links to the next one along the path.
+        const keyPath = hash(Convert.hexToUint8(key));
+        let offset = 0;
+        for (let i = 0; i < branches.length; i++) {
+            const branch = branches[i];
+            const nibbles = nibblesOf(branch.path, branch.nibbleCount);
+            if (keyPath.substring(offset, offset + nibbles.length) !== nibbles) {
+                return { valid: false, reason: `Path mismatched at branch #${i}` };
+            }
+            offset += nibbles.length;
+
+            const bit = keyPath[offset++];
+            const childHash = i + 1 < branches.length ? branches[i + 1].branchHash : leaf.leafHash;
+            const link = branch.links.find((link) => link.bit.toUpperCase() === bit);
+            if (link?.link.toUpperCase() !== childHash.toUpperCase()) {
+                return { valid: false, reason: `Link mismatched at branch #${i}` };
+            }
+        }
+        if (keyPath.substring(offset) !== nibblesOf(leaf.path, leaf.nibbleCount)) {
+            return { valid: false, reason: "Path mismatched at leaf" };
+        }
+
+        const rootHash = (branches.length ? branches[0].branchHash : leaf.leafHash).toUpperCase();
+        if (roots[subCacheIndex] !== rootHash) {
+            return { valid: false, reason: `Root hash mismatched with sub cache merkle root #${subCacheIndex}` };
+        }
+
+        return { valid: true };
+    };
+
+    export const verifyMetadata = (
+        entry: BinMetadataEntry,
+        merkle: MerkleStateInfo,
+        anchor: MerkleProofAnchor,
+    ) => verify(entry.compositeHash, entry.serialize(), merkle, anchor, METADATA_SUB_CACHE_INDEX);
+
+}
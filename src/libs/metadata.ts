@@ -15,6 +15,8 @@ import {
     NetworkType,
     Page,
     PaginationStreamer,
+    RepositoryFactoryConfig,
+    RepositoryFactoryHttp,
     Searcher,
     SearcherRepository,
     UInt64
@@ -282,3 +284,42 @@ export class BinMetadataHttp extends Http implements BinMetadataRepository {
         );
     }
 }
+
+/**
+ * Repository factory that can create {@link BinMetadataRepository}.
+ * Implement createBinMetadataRepository on custom factories (mocks, proxies etc.) to provide binary metadata.
+ */
+export interface BinMetadataRepositoryFactory {
+    /**
+     * @returns a newly created {@link BinMetadataRepository}
+     */
+    createBinMetadataRepository(): BinMetadataRepository;
+}
+
+/**
+ * Check whether the repository factory can create {@link BinMetadataRepository}.
+ * @param factory - The repository factory
+ */
+export const isBinMetadataRepositoryFactory = (factory: any): factory is BinMetadataRepositoryFactory =>
+    typeof factory?.createBinMetadataRepository === "function";
+
+/**
+ * RepositoryFactoryHttp that also creates {@link BinMetadataHttp}.
+ */
+export class BinMetadataRepositoryFactoryHttp extends RepositoryFactoryHttp implements BinMetadataRepositoryFactory {
+    /**
+     * Constructor
+     * @param url Base catapult-rest url
+     * @param configs Repository factory configuration
+     */
+    constructor(
+        private readonly restUrl: string,
+        private readonly restConfigs?: RepositoryFactoryConfig,
+    ) {
+        super(restUrl, restConfigs);
+    }
+
+    public createBinMetadataRepository(): BinMetadataRepository {
+        return new BinMetadataHttp(this.restUrl, this.restConfigs?.fetchApi);
+    }
+}
@@ -0,0 +1,321 @@
+import {
+    Account,
+    Address,
+    Convert,
+    InnerTransaction,
+    KeyGenerator,
+    MetadataType,
+    MosaicId,
+    NamespaceId,
+    PublicAccount,
+    UInt64
+} from "symbol-sdk";
+import { sha3_256 } from "js-sha3";
+import { BinMetadata } from "../libs";
+import { ExecuteBatchesOptions, SymbolService } from "./symbol";
+
+
+export interface ChunkedMetadataHeader {
+    version: string;
+    // Total bytes of the payload
+    size: number;
+    // Number of chunks
+    chunks: number;
+    // SHA3-256 of the payload (hex)
+    checksum: string;
+}
+
+export interface ChunkedMetadataServiceConfig {
+    // Bytes per chunk. Defaults to maxValueSize of the network.
+    chunk_size?: number;
+    // Max parallel requests to fetch chunks. Defaults to max_parallels of SymbolService.
+    max_parallels?: number;
+}
+
+// Store large binary over multiple metadata keys.
+// The header is stored at the key itself, and chunks are stored at keys derived from it.
+export class ChunkedMetadataService {
+
+    private static VERSION = "1.0";
+
+    public readonly config: ChunkedMetadataServiceConfig = {};
+
+    public constructor(
+        private readonly symbolService: SymbolService,
+        cfg?: Partial<ChunkedMetadataServiceConfig>,
+    ) {
+        this.config = { ...this.config, ...cfg };
+    }
+
+    public static chunkKey(key: string | UInt64, index: number) {
+        const actualKey = typeof (key) === "string" ? SymbolService.generateKey(key) : key;
+        return KeyGenerator.generateUInt64Key(`${actualKey.toHex()}.${index}`);
+    }
+
+    public static checksum(payload: Uint8Array) {
+        return sha3_256.create().update(payload).hex().toUpperCase();
+    }
+
+    public static encodeHeader(header: ChunkedMetadataHeader) {
+        return Convert.utf8ToUint8(JSON.stringify(header));
+    }
+
+    public static decodeHeader(value: Uint8Array): ChunkedMetadataHeader {
+        let json: any;
+        try {
+            json = JSON.parse(Convert.uint8ToUtf8(value));
+        } catch (e) {
+            throw new Error("Malformed header");
+        }
+        if (json?.version !== ChunkedMetadataService.VERSION) {
+            throw new Error(`Version mismatched: ${json?.version}`);
+        }
+        if (!Number.isInteger(json.size) || !Number.isInteger(json.chunks) || typeof (json.checksum) !== "string") {
+            throw new Error("Malformed header");
+        }
+        return json;
+    }
+
+    // Split payload into chunks
+    public static split(payload: Uint8Array, chunkSize: number) {
+        if (chunkSize <= 0) {
+            throw new Error(`Invalid chunk size: ${chunkSize}`);
+        }
+        const chunks = new Array<Uint8Array>();
+        for (let offset = 0; offset < payload.length; offset += chunkSize) {
+            chunks.push(payload.slice(offset, offset + chunkSize));
+        }
+        return {
+            header: {
+                version: ChunkedMetadataService.VERSION,
+                size: payload.length,
+                chunks: chunks.length,
+                checksum: ChunkedMetadataService.checksum(payload),
+            } as ChunkedMetadataHeader,
+            chunks,
+        };
+    }
+
+    // Concatenate chunks and verify integrity with the header
+    public static join(header: ChunkedMetadataHeader, chunks: (Uint8Array | undefined)[]) {
+        const payload = new Uint8Array(header.size);
+        let offset = 0;
+        for (let i = 0; i < header.chunks; i++) {
+            const chunk = chunks[i];
+            if (!chunk) {
+                throw new Error(`Chunk #${i} is missing`);
+            }
+            if (offset + chunk.length > header.size) {
+                throw new Error("Size mismatched");
+            }
+            payload.set(chunk, offset);
+            offset += chunk.length;
+        }
+        if (offset !== header.size) {
+            throw new Error("Size mismatched");
+        }
+        if (ChunkedMetadataService.checksum(payload) !== header.checksum) {
+            throw new Error("Checksum mismatched");
+        }
+        return payload;
+    }
+
+    private async getChunkSize() {
+        if (this.config.chunk_size) {
+            return this.config.chunk_size;
+        }
+        const { networkProperties } = await this.symbolService.getNetwork();
+        return SymbolService.parseConfigNumber(networkProperties.plugins.metadata?.maxValueSize) || 1024;
+    }
+
+    // Returns undefined if not found
+    private async getEntry(
+        type: MetadataType,
+        sourceAddress: Address,
+        targetAddress: Address,
+        targetId: undefined | MosaicId | NamespaceId,
+        key: UInt64,
+    ): Promise<BinMetadata | undefined> {
+        const compositeHash = SymbolService.calculateMetadataHash(type, sourceAddress, targetAddress, targetId, key);
+        return this.symbolService.getBinMetadataByHash(compositeHash)
+            .catch((e) => {
+                if (SymbolService.isNotFoundError(e)) {
+                    return undefined;
+                }
+                throw e;
+            });
+    }
+
+    // Fetch header and chunk entries by composite hash. Entries of missing chunks are undefined.
+    // Chunks are fetched by limited number of workers, so that large payload won't flood the node.
+    private async fetchEntries(
+        type: MetadataType,
+        source: Account | PublicAccount | Address,
+        target: Account | PublicAccount | Address,
+        targetId: undefined | MosaicId | NamespaceId,
+        key: string | UInt64,
+    ) {
+        const actualKey = typeof (key) === "string" ? SymbolService.generateKey(key) : key;
+        const sourceAddress = SymbolService.isAddress(source) ? source : source.address;
+        const targetAddress = SymbolService.isAddress(target) ? target : target.address;
+        const headerEntry = await this.getEntry(type, sourceAddress, targetAddress, targetId, actualKey);
+        if (!headerEntry) {
+            return undefined;
+        }
+        const header = ChunkedMetadataService.decodeHeader(headerEntry.metadataEntry.value);
+        const chunkEntries = new Array<BinMetadata | undefined>(header.chunks);
+        const maxParallels = this.config.max_parallels || this.symbolService.config.max_parallels;
+        let nextIndex = 0;
+        await Promise.all([ ...Array(Math.min(maxParallels, header.chunks)).keys() ].map(async () => {
+            for (let index = nextIndex++; index < header.chunks; index = nextIndex++) {
+                chunkEntries[index] = await this.getEntry(
+                    type, sourceAddress, targetAddress, targetId, ChunkedMetadataService.chunkKey(actualKey, index),
+                );
+            }
+        }));
+        return { header, headerEntry, chunkEntries };
+    }
+
+    // Create transactions to store payload. Throws if the header exists (delete before storing again).
+    // Chunks come first and the header comes last, so that incomplete payload won't be read.
+    // Chunks left by an interrupted store are overwritten with deltas.
+    public async createStoreTxs(
+        type: MetadataType,
+        sourcePubAccount: PublicAccount,
+        targetPubAccount: PublicAccount,
+        targetId: undefined | MosaicId | NamespaceId,
+        key: string | UInt64,
+        payload: Uint8Array,
+    ) {
+        const actualKey = typeof (key) === "string" ? SymbolService.generateKey(key) : key;
+        if (await this.getEntry(type, sourcePubAccount.address, targetPubAccount.address, targetId, actualKey)) {
+            throw new Error(`Metadata ${actualKey.toHex()} already exists`);
+        }
+        const { header, chunks } = ChunkedMetadataService.split(payload, await this.getChunkSize());
+        const txs = new Array<InnerTransaction>();
+        for (let i = 0; i < chunks.length; i++) {
+            const tx = await this.symbolService.updateMetadataTx(
+                type,
+                sourcePubAccount,
+                targetPubAccount,
+                targetId,
+                ChunkedMetadataService.chunkKey(actualKey, i),
+                chunks[i],
+            );
+            if (tx) {
+                txs.push(tx);
+            }
+        }
+        txs.push(await this.symbolService.createMetadataTx(
+            type,
+            sourcePubAccount,
+            targetPubAccount,
+            targetId,
+            actualKey,
+            ChunkedMetadataService.encodeHeader(header),
+        ));
+        return txs;
+    }
+
+    // Create transactions to delete header and existing chunks with negative size deltas.
+    // The header is deleted first so that the payload is never read partially.
+    public async createDeleteTxs(
+        type: MetadataType,
+        sourcePubAccount: PublicAccount,
+        targetPubAccount: PublicAccount,
+        targetId: undefined | MosaicId | NamespaceId,
+        key: string | UInt64,
+    ) {
+        const entries = await this.fetchEntries(type, sourcePubAccount, targetPubAccount, targetId, key);
+        if (!entries) {
+            return [];
+        }
+        const txs = new Array<InnerTransaction>();
+        for (const entry of [ entries.headerEntry, ...entries.chunkEntries ]) {
+            if (!entry) {
+                continue;
+            }
+            const { value, sizeDelta } = SymbolService.calculateMetadataDelta(entry.metadataEntry.value, new Uint8Array());
+            txs.push(await this.symbolService.createMetadataTx(
+                type,
+                sourcePubAccount,
+                targetPubAccount,
+                targetId,
+                entry.metadataEntry.scopedMetadataKey,
+                value,
+                sizeDelta,
+            ));
+        }
+        return txs;
+    }
+
+    // Returns:
+    //   - Verified payload, or undefined if the header is not found.
+    public async load(
+        type: MetadataType,
+        source: Account | PublicAccount | Address,
+        target: Account | PublicAccount | Address,
+        targetId: undefined | MosaicId | NamespaceId,
+        key: string | UInt64,
+    ) {
+        const entries = await this.fetchEntries(type, source, target, targetId, key);
+        if (!entries) {
+            return undefined;
+        }
+        return ChunkedMetadataService.join(
+            entries.header,
+            entries.chunkEntries.map((entry) => entry?.metadataEntry.value),
+        );
+    }
+
+    // Store payload and wait for confirmation.
+    // cosignerAccounts must include the target account when it differs from the source.
+    public async store(
+        type: MetadataType,
+        sourceAccount: Account,
+        targetPubAccount: PublicAccount,
+        targetId: undefined | MosaicId | NamespaceId,
+        key: string | UInt64,
+        payload: Uint8Array,
+        cosignerAccounts: Account[] = [],
+        options?: ExecuteBatchesOptions,
+    ) {
+        const txs = await this.createStoreTxs(
+            type, sourceAccount.publicAccount, targetPubAccount, targetId, key, payload,
+        );
+        return this.execute(txs, sourceAccount, cosignerAccounts, options);
+    }
+
+    // Delete payload and wait for confirmation.
+    public async delete(
+        type: MetadataType,
+        sourceAccount: Account,
+        targetPubAccount: PublicAccount,
+        targetId: undefined | MosaicId | NamespaceId,
+        key: string | UInt64,
+        cosignerAccounts: Account[] = [],
+        options?: ExecuteBatchesOptions,
+    ) {
+        const txs = await this.createDeleteTxs(
+            type, sourceAccount.publicAccount, targetPubAccount, targetId, key,
+        );
+        return this.execute(txs, sourceAccount, cosignerAccounts, options);
+    }
+
+    // Batches are executed one by one to keep the order of chunks and the header.
+    private async execute(
+        txs: InnerTransaction[],
+        signerAccount: Account,
+        cosignerAccounts: Account[],
+        options?: ExecuteBatchesOptions,
+    ) {
+        if (!txs.length) {
+            return undefined;
+        }
+        const batches = await this.symbolService.buildSignedAggregateCompleteTxBatches(
+            txs, signerAccount, cosignerAccounts,
+        );
+        return this.symbolService.executeBatches(batches, signerAccount, 1, { policy: "fail-fast", ...options });
+    }
+
+}
@@ -0,0 +1,208 @@
+import moment from "moment";
+import { firstValueFrom } from "rxjs";
+import {
+    Address,
+    InnerTransaction,
+    MosaicDefinitionTransaction,
+    MosaicId,
+    MosaicInfo,
+    NamespaceId,
+    NamespaceInfo,
+    NamespaceRegistrationType,
+    PublicAccount,
+    TransactionGroup,
+    TransactionType,
+    UInt64
+} from "symbol-sdk";
+import { Logger } from "../libs";
+import { SymbolService } from "./symbol";
+
+
+export interface ExpiryInfo {
+    type: "namespace" | "mosaic";
+    id: NamespaceId | MosaicId;
+    // Full name of the root namespace, or the first alias of the mosaic
+    name?: string;
+    expiryHeight: UInt64;
+    // Zero or negative when expired
+    remainingBlocks: number;
+    // Estimated with the block generation target time
+    remainingMsecs: number;
+    expiresAt: number;
+    expired: boolean;
+    // Expired or within the warning period
+    expiring: boolean;
+    // Mosaics can be renewed only while the supply is zero
+    renewable: boolean;
+}
+
+export interface ExpiryTrackerOptions {
+    // e.g. "7d" or moment.duration(7, "days"). Default: 30 days
+    warningPeriod?: string | moment.Duration;
+}
+
+// Track expiry of root namespaces and mosaics owned by the account, and build renewal transactions.
+// Child namespaces share the lifetime of the root, and eternal ones are not listed.
+export class ExpiryTrackerService {
+
+    private static ETERNAL_HEIGHT = UInt64.fromHex("FFFFFFFFFFFFFFFF");
+
+    public constructor(private readonly symbolService: SymbolService) {}
+
+    private static isEternal(expiryHeight: UInt64) {
+        return expiryHeight.equals(UInt64.fromUint(0)) || expiryHeight.equals(ExpiryTrackerService.ETERNAL_HEIGHT);
+    }
+
+    private async searchAll<T>(search: (pageNumber: number, pageSize: number) => Promise<T[]>, pageSize: number = 100) {
+        const items = new Array<T>();
+        let batch;
+        let pageNumber = 1;
+        do {
+            batch = await search(pageNumber++, pageSize);
+            items.push(...batch);
+        } while (batch.length === pageSize);
+        return items;
+    }
+
+    private async searchNamespaces(ownerAddress: Address) {
+        const { repositoryFactory } = await this.symbolService.getNetwork();
+        const namespaceHttp = repositoryFactory.createNamespaceRepository();
+        return this.searchAll<NamespaceInfo>((pageNumber, pageSize) => firstValueFrom(namespaceHttp.search({
+            ownerAddress,
+            registrationType: NamespaceRegistrationType.RootNamespace,
+            pageNumber,
+            pageSize,
+        })).then((page) => page.data));
+    }
+
+    private async searchMosaics(ownerAddress: Address) {
+        const { repositoryFactory } = await this.symbolService.getNetwork();
+        const mosaicHttp = repositoryFactory.createMosaicRepository();
+        return this.searchAll<MosaicInfo>((pageNumber, pageSize) => firstValueFrom(mosaicHttp.search({
+            ownerAddress,
+            pageNumber,
+            pageSize,
+        })).then((page) => page.data));
+    }
+
+    // Returns:
+    //   - Expiry of root namespaces and mosaics with finite duration, sorted by expiry height.
+    public async getExpiries(ownerAddress: Address, options?: ExpiryTrackerOptions): Promise<ExpiryInfo[]> {
+        const { repositoryFactory } = await this.symbolService.getNetwork();
+        const { height } = await firstValueFrom(repositoryFactory.createChainRepository().getChainInfo());
+        const blockMsecs = await this.symbolService.getBlockGenerationTargetMsecs();
+        const warningMsecs = SymbolService.toDurationMsecs(options?.warningPeriod ?? "30d");
+        const now = moment.now();
+
+        const toExpiryInfo = (
+            type: ExpiryInfo["type"],
+            id: NamespaceId | MosaicId,
+            name: string | undefined,
+            expiryHeight: UInt64,
+            renewable: boolean,
+        ): ExpiryInfo => {
+            const remainingBlocks = Number(expiryHeight.toString()) - Number(height.toString());
+            const remainingMsecs = remainingBlocks * blockMsecs;
+            return {
+                type,
+                id,
+                name,
+                expiryHeight,
+                remainingBlocks,
+                remainingMsecs,
+                expiresAt: now + remainingMsecs,
+                expired: remainingBlocks <= 0,
+                expiring: remainingMsecs <= warningMsecs,
+                renewable,
+            };
+        };
+
+        const namespaces = (await this.searchNamespaces(ownerAddress))
+            .filter((namespace) => !ExpiryTrackerService.isEternal(namespace.endHeight));
+        const namespaceNames = namespaces.length
+            ? await firstValueFrom(repositoryFactory.createNamespaceRepository().getNamespacesNames(
+                namespaces.map((namespace) => namespace.id)
+            ))
+            : [];
+        const mosaics = (await this.searchMosaics(ownerAddress))
+            .filter((mosaic) => !mosaic.duration.equals(UInt64.fromUint(0)));
+
+        return [
+            ...namespaces.map((namespace) => toExpiryInfo(
+                "namespace",
+                namespace.id,
+                namespaceNames.find((name) => name.namespaceId.equals(namespace.id))?.name,
+                namespace.endHeight,
+                true,
+            )),
+            ...await Promise.all(mosaics.map(async (mosaic) => toExpiryInfo(
+                "mosaic",
+                mosaic.id,
+                (await this.symbolService.getMosaicNames(mosaic.id))[0],
+                mosaic.startHeight.add(mosaic.duration),
+                mosaic.supply.equals(UInt64.fromUint(0)),
+            ))),
+        ].sort((a, b) => a.expiryHeight.compare(b.expiryHeight));
+    }
+
+    // Warn about expired or expiring namespaces and mosaics.
+    // Returns:
+    //   - Expired or expiring ones
+    public async checkExpiries(ownerAddress: Address, options?: ExpiryTrackerOptions) {
+        const expiring = (await this.getExpiries(ownerAddress, options)).filter((expiry) => expiry.expiring);
+        for (const expiry of expiring) {
+            const label = `${expiry.type === "namespace" ? "Namespace" : "Mosaic"} ${expiry.name ?? expiry.id.toHex()}`;
+            Logger.warn(expiry.expired
+                ? `${label} has expired at height ${expiry.expiryHeight.toString()}`
+                : `${label} expires in ${expiry.remainingBlocks} blocks (${moment(expiry.expiresAt).toISOString()})`
+            );
+        }
+        return expiring;
+    }
+
+    // Nonce is not stored in the mosaic entry, so find it from the definition transaction.
+    private async findMosaicDefinitionTx(ownerAddress: Address, mosaicId: MosaicId) {
+        const { repositoryFactory } = await this.symbolService.getNetwork();
+        const txHttp = repositoryFactory.createTransactionRepository();
+        const txs = await this.searchAll((pageNumber, pageSize) => firstValueFrom(txHttp.search({
+            group: TransactionGroup.Confirmed,
+            address: ownerAddress,
+            embedded: true,
+            type: [ TransactionType.MOSAIC_DEFINITION ],
+            pageNumber,
+            pageSize,
+        })).then((page) => page.data));
+        return txs.find((tx): tx is MosaicDefinitionTransaction =>
+            tx instanceof MosaicDefinitionTransaction && tx.mosaicId.equals(mosaicId)
+        );
+    }
+
+    // Build transactions that extend the expiries by the duration. Pass them to buildSignedAggregateCompleteTxBatches.
+    public async createRenewalTxs(ownerPubAccount: PublicAccount, expiries: ExpiryInfo[], durationBlocks: UInt64) {
+        const txs = new Array<InnerTransaction>();
+        for (const expiry of expiries) {
+            if (expiry.id instanceof NamespaceId) {
+                if (!expiry.name) {
+                    throw new Error(`Name of namespace ${expiry.id.toHex()} is unknown`);
+                }
+                txs.push(await this.symbolService.createNamespaceRegistrationTx(ownerPubAccount, expiry.name, durationBlocks));
+            } else {
+                if (!expiry.renewable) {
+                    throw new Error(`Mosaic ${expiry.id.toHex()} is not renewable because its supply is not zero`);
+                }
+                const definitionTx = await this.findMosaicDefinitionTx(ownerPubAccount.address, expiry.id);
+                if (!definitionTx) {
+                    throw new Error(`Definition of mosaic ${expiry.id.toHex()} is not found`);
+                }
+                txs.push(await this.symbolService.createMosaicRenewalTx(
+                    ownerPubAccount,
+                    definitionTx.nonce,
+                    expiry.id,
+                    durationBlocks,
+                ));
+            }
+        }
+        return txs;
+    }
+
+}
@@ -1,3 +1,11 @@
 export * from "./symbol";
 export * from "./necromancy";
-export * from "./node_tracker";
\ No newline at end of file
+export * from "./node_tracker";
+export * from "./journal";
+export * from "./chunked_metadata";
+export * from "./metadata_registry";
+export * from "./metadata_watcher";
+export * from "./metadata_snapshot";
+export * from "./metadata_plan";
+export * from "./mosaic";
+export * from "./expiry_tracker";
@@ -0,0 +1,196 @@
+import {
+    Account,
+    CosignatureSignedTransaction,
+    PublicAccount,
+    SignedTransaction,
+    TransactionMapping,
+    UInt64
+} from "symbol-sdk";
+import moment from "moment";
+import { v4 as uuidv4 } from "uuid";
+import { JournalBatchState, JournalEntry, JournalStore, Logger } from "../libs";
+import { ExecuteBatchesOptions, SignedAggregateTx, SymbolService, WaitTxResult } from "./symbol";
+
+
+export interface JournaledBatchesResult {
+    // Failed batches except expired ones
+    errors?: WaitTxResult[];
+    // Expired batches that require re-signing
+    expired: SignedAggregateTx[];
+}
+
+// Record states of batches so that executeBatches can be resumed after crash.
+export class BatchJournalService {
+
+    public static toEntry(batch: SignedAggregateTx, index: number, state: JournalBatchState = "pending"): JournalEntry {
+        return {
+            hash: batch.signedTx.hash,
+            payload: batch.signedTx.payload,
+            signerPublicKey: batch.signedTx.signerPublicKey,
+            type: batch.signedTx.type,
+            networkType: batch.signedTx.networkType,
+            cosignatures: batch.cosignatures.map((cosignature) => ({
+                parentHash: cosignature.parentHash,
+                signature: cosignature.signature,
+                signerPublicKey: cosignature.signerPublicKey,
+                version: cosignature.version.toDTO(),
+            })),
+            maxFee: batch.maxFee.toDTO(),
+            index,
+            state,
+            updated_at: moment.now(),
+        };
+    }
+
+    public static fromEntry(entry: JournalEntry): SignedAggregateTx {
+        return {
+            signedTx: new SignedTransaction(
+                entry.payload,
+                entry.hash,
+                entry.signerPublicKey,
+                entry.type,
+                entry.networkType,
+            ),
+            cosignatures: entry.cosignatures.map((cosignature) => new CosignatureSignedTransaction(
+                cosignature.parentHash,
+                cosignature.signature,
+                cosignature.signerPublicKey,
+                new UInt64(cosignature.version),
+            )),
+            maxFee: new UInt64(entry.maxFee),
+        };
+    }
+
+    private writing = Promise.resolve();
+
+    public constructor(
+        private readonly symbolService: SymbolService,
+        public readonly store: JournalStore,
+    ) {}
+
+    // Serialize writes because progress events come asynchronously.
+    // A failed write doesn't block following writes, and is thrown to the caller.
+    private async update(entry: JournalEntry, state: JournalBatchState, error?: string) {
+        entry.state = state;
+        entry.error = error;
+        entry.updated_at = moment.now();
+        const snapshot = { ...entry };
+        this.writing = this.writing.catch(() => undefined).then(() => this.store.put([ snapshot ]));
+        return this.writing;
+    }
+
+    // Progress events can't propagate errors, so report them.
+    private updateInBackground(entry: JournalEntry, state: JournalBatchState, error?: string) {
+        this.update(entry, state, error).catch((e) => {
+            Logger.error(`Failed to write journal of ${entry.hash} (${state}): ${e}`);
+        });
+    }
+
+    // Add batches to the journal as pending. Already recorded batches are ignored.
+    public async record(batches: SignedAggregateTx[]) {
+        const entries = await this.store.list();
+        const hashes = new Set(entries.map((entry) => entry.hash));
+        let index = entries.reduce((acc, curr) => Math.max(acc, curr.index + 1), 0);
+        const newEntries = batches
+            .filter((batch) => !hashes.has(batch.signedTx.hash))
+            .map((batch) => BatchJournalService.toEntry(batch, index++));
+        if (newEntries.length) {
+            await this.store.put(newEntries);
+        }
+        return newEntries.length;
+    }
+
+    // Replace an expired batch with the re-signed one, so that it won't be returned as expired any more.
+    // The new batch takes over the order of the expired one.
+    public async replace(expiredHash: string, batch: SignedAggregateTx) {
+        const entry = (await this.store.list()).find((entry) => entry.hash === expiredHash);
+        if (entry?.state !== "expired") {
+            throw new Error(`Expired batch not found: ${expiredHash}`);
+        }
+        const newEntry = BatchJournalService.toEntry(batch, entry.index);
+        entry.state = "resigned";
+        entry.updated_at = newEntry.updated_at;
+        // Write both at once, so that a crash won't lose the new batch or leave the old one expired.
+        await this.store.put([ entry, newEntry ]);
+    }
+
+    // Execute unfinished batches in the journal.
+    // Arguments:
+    //   - batches: (Optional) Batches to be recorded before execution.
+    // Returns:
+    //   - errors: Failed batches (not including expired)
+    //   - expired: Batches that have passed the deadline. Sign again, replace and execute.
+    public async execute(
+        signerAccount: Account | PublicAccount,
+        batches?: SignedAggregateTx[],
+        maxParallel?: number,
+        options?: ExecuteBatchesOptions,
+    ): Promise<JournaledBatchesResult> {
+        if (batches) {
+            await this.record(batches);
+        }
+
+        const entries = await this.store.list();
+        const queue = new Map<string, JournalEntry>();
+        for (const entry of entries.filter((entry) => ["pending", "announced"].includes(entry.state))) {
+            // Pending ones too, because the process may crash after announcing and before recording it
+            if (await this.symbolService.getConfirmedTx(entry.hash)) {
+                // Confirmed while the process was not running
+                await this.update(entry, "confirmed");
+                continue;
+            }
+            const deadline = TransactionMapping.createFromPayload(entry.payload).deadline;
+            if (await this.symbolService.getDeadlineTime(deadline) <= moment.now()) {
+                Logger.debug(`Expired: ${entry.hash}`);
+                await this.update(entry, "expired");
+                continue;
+            }
+            queue.set(entry.hash, entry);
+        }
+
+        // Ignore progress of other runs, which may have the same batches.
+        const runId = options?.runId ?? uuidv4();
+        const subscription = this.symbolService.batchObserver.subscribe((progress) => {
+            const entry = progress.runId === runId && progress.batch && queue.get(progress.batch.signedTx.hash);
+            if (!entry) {
+                return;
+            }
+            switch (progress.type) {
+                case "announced":
+                    this.updateInBackground(entry, "announced");
+                    break;
+                case "confirmed":
+                    this.updateInBackground(entry, "confirmed");
+                    break;
+                case "failed":
+                    if (progress.result?.expired) {
+                        this.updateInBackground(entry, "expired", progress.result.error);
+                    } else if (!progress.result?.aborted) {
+                        this.updateInBackground(entry, "failed", progress.result?.error);
+                    }
+                    break;
+            }
+        });
+
+        const errors = await this.symbolService.executeBatches(
+            [ ...queue.values() ].map((entry) => BatchJournalService.fromEntry(entry)),
+            signerAccount,
+            maxParallel,
+            { ...options, runId },
+        ).finally(async () => {
+            subscription.unsubscribe();
+            // Failed writes have been reported
+            await this.writing.catch(() => undefined);
+        });
+
+        return {
+            errors: errors?.some((error) => !error.expired)
+                ? errors.filter((error) => !error.expired)
+                : undefined,
+            expired: (await this.store.list())
+                .filter((entry) => entry.state === "expired")
+                .map((entry) => BatchJournalService.fromEntry(entry)),
+        };
+    }
+
+}
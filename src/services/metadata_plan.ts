@@ -0,0 +1,259 @@
+import { firstValueFrom } from "rxjs";
+import {
+    Account,
+    Address,
+    Convert,
+    InnerTransaction,
+    MetadataType,
+    MosaicId,
+    NamespaceId,
+    PublicAccount,
+    UInt64
+} from "symbol-sdk";
+import { BinMetadataEntry } from "../libs";
+import { ExecuteBatchesOptions, SymbolService } from "./symbol";
+
+
+// Desired metadata. Empty value means the entry must not exist.
+export interface DesiredMetadata {
+    type: MetadataType;
+    target: PublicAccount;
+    targetId?: MosaicId | NamespaceId;
+    key: string | UInt64;
+    value: string | Uint8Array;
+}
+
+export type MetadataPlanAction = "create" | "update" | "delete";
+
+export interface MetadataPlanItem {
+    action: MetadataPlanAction;
+    type: MetadataType;
+    compositeHash: string;
+    targetAddress: Address;
+    targetId?: MosaicId | NamespaceId;
+    scopedMetadataKey: UInt64;
+    // Key name if declared with string
+    keyName?: string;
+    // Empty when created
+    oldValue: Uint8Array;
+    // Empty when deleted
+    newValue: Uint8Array;
+    tx: InnerTransaction;
+}
+
+export interface MetadataPlanOptions {
+    // Delete entries on chain that are not declared, within declared type/target/targetId. Defaults to true.
+    prune?: boolean;
+}
+
+export interface MetadataPlan {
+    sourcePubAccount: PublicAccount;
+    desired: DesiredMetadata[];
+    options?: MetadataPlanOptions;
+    items: MetadataPlanItem[];
+    // Estimated total max fee of batches in atomic units of the network currency
+    maxFee: UInt64;
+    batches: number;
+    currency: { name: string, divisibility: number };
+}
+
+// Manage metadata declaratively: diff desired state against the chain, show the plan and apply it.
+export class MetadataPlanService {
+
+    private static ACTION_SIGNS: Record<MetadataPlanAction, string> = { create: "+", update: "~", delete: "-" };
+
+    private static TYPE_NAMES: Record<MetadataType, string> = {
+        [MetadataType.Account]: "account",
+        [MetadataType.Mosaic]: "mosaic",
+        [MetadataType.Namespace]: "namespace",
+    };
+
+    // Show UTF-8 text if printable, otherwise hex.
+    private static formatValue(value: Uint8Array) {
+        let text: string | undefined;
+        try {
+            text = new TextDecoder("utf-8", { fatal: true }).decode(value);
+        } catch (e) {
+            text = undefined;
+        }
+        const formatted = text !== undefined && !text.match(/[\x00-\x1F\x7F]/)
+            ? JSON.stringify(text)
+            : `0x${Convert.uint8ToHex(value)}`;
+        return formatted.length > 64 ? `${formatted.substring(0, 61)}...` : formatted;
+    }
+
+    // Human readable plan like:
+    //   ~ account TA... key=config: "old" -> "new"
+    //   Plan: 0 to create, 1 to update, 0 to delete.
+    public static format(plan: MetadataPlan) {
+        const lines = plan.items.map((item) => {
+            const target = [
+                MetadataPlanService.TYPE_NAMES[item.type],
+                item.targetAddress.plain(),
+                ...(item.targetId ? [ item.targetId.toHex() ] : []),
+            ].join(" ");
+            const value = item.action === "update"
+                ? `${MetadataPlanService.formatValue(item.oldValue)} -> ${MetadataPlanService.formatValue(item.newValue)}`
+                : MetadataPlanService.formatValue(item.action === "create" ? item.newValue : item.oldValue);
+            return `  ${MetadataPlanService.ACTION_SIGNS[item.action]} ${target} ` +
+                `key=${item.keyName ?? item.scopedMetadataKey.toHex()}: ${value}`;
+        });
+        const count = (action: MetadataPlanAction) => plan.items.filter((item) => item.action === action).length;
+        return [
+            ...lines,
+            `Plan: ${count("create")} to create, ${count("update")} to update, ${count("delete")} to delete.`,
+            ...(plan.items.length
+                ? [ `Estimated max fee: ${SymbolService.fromAtomicUnits(plan.maxFee, plan.currency.divisibility)} ` +
+                    `${plan.currency.name} (${plan.batches} batches)` ]
+                : []),
+        ].join("\n");
+    }
+
+    public constructor(private readonly symbolService: SymbolService) {}
+
+    // Diff the desired state against the chain.
+    // Arguments:
+    //   - sourcePubAccount: Source of all the metadata (the declaring account)
+    public async plan(
+        sourcePubAccount: PublicAccount,
+        desired: DesiredMetadata[],
+        options?: MetadataPlanOptions,
+    ): Promise<MetadataPlan> {
+        const declared = new Map<string, DesiredMetadata & { compositeHash: string, scopedMetadataKey: UInt64 }>();
+        // Groups of type/target/targetId to search current entries
+        const scopes = new Map<string, DesiredMetadata>();
+        for (const entry of desired) {
+            const scopedMetadataKey = typeof (entry.key) === "string" ? SymbolService.generateKey(entry.key) : entry.key;
+            const compositeHash = SymbolService.calculateMetadataHash(
+                entry.type, sourcePubAccount.address, entry.target.address, entry.targetId, scopedMetadataKey,
+            );
+            if (declared.has(compositeHash)) {
+                throw new Error(`Duplicated declaration: ${typeof (entry.key) === "string" ? entry.key : entry.key.toHex()}`);
+            }
+            declared.set(compositeHash, { ...entry, compositeHash, scopedMetadataKey });
+            scopes.set(`${entry.type}:${entry.target.address.plain()}:${entry.targetId?.toHex() ?? ""}`, entry);
+        }
+
+        const current = new Map<string, { entry: BinMetadataEntry, target: PublicAccount }>();
+        for (const scope of scopes.values()) {
+            const metadataPool = await this.symbolService.searchBinMetadata(scope.type, {
+                source: sourcePubAccount,
+                target: scope.target,
+                targetId: scope.targetId,
+            });
+            for (const { metadataEntry } of metadataPool) {
+                current.set(metadataEntry.compositeHash, { entry: metadataEntry, target: scope.target });
+            }
+        }
+
+        const items = new Array<MetadataPlanItem>();
+        const addItem = async (
+            entry: Omit<MetadataPlanItem, "action" | "tx">,
+            target: PublicAccount,
+        ) => {
+            const { value, sizeDelta } = SymbolService.calculateMetadataDelta(entry.oldValue, entry.newValue);
+            items.push({
+                ...entry,
+                action: !entry.oldValue.length ? "create" : !entry.newValue.length ? "delete" : "update",
+                tx: await this.symbolService.createMetadataTx(
+                    entry.type, sourcePubAccount, target, entry.targetId, entry.scopedMetadataKey, value, sizeDelta,
+                ),
+            });
+        };
+
+        for (const entry of declared.values()) {
+            const oldValue = current.get(entry.compositeHash)?.entry.value ?? new Uint8Array();
+            const newValue = typeof (entry.value) === "string" ? Convert.utf8ToUint8(entry.value) : entry.value;
+            if (Convert.uint8ToHex(oldValue) === Convert.uint8ToHex(newValue)) {
+                continue;
+            }
+            await addItem({
+                type: entry.type,
+                compositeHash: entry.compositeHash,
+                targetAddress: entry.target.address,
+                targetId: entry.targetId,
+                scopedMetadataKey: entry.scopedMetadataKey,
+                keyName: typeof (entry.key) === "string" ? entry.key : undefined,
+                oldValue,
+                newValue,
+            }, entry.target);
+        }
+        if (options?.prune ?? true) {
+            for (const { entry, target } of current.values()) {
+                if (declared.has(entry.compositeHash)) {
+                    continue;
+                }
+                await addItem({
+                    type: entry.metadataType,
+                    compositeHash: entry.compositeHash,
+                    targetAddress: entry.targetAddress,
+                    targetId: entry.targetId as MosaicId | NamespaceId | undefined,
+                    scopedMetadataKey: entry.scopedMetadataKey,
+                    oldValue: entry.value,
+                    newValue: new Uint8Array(),
+                }, target);
+            }
+        }
+
+        // Every target other than the source must cosign
+        const cosigners = new Set(items
+            .map((item) => item.targetAddress.plain())
+            .filter((address) => address !== sourcePubAccount.address.plain()));
+        const batches = await this.symbolService.buildAggregateCompleteTxBatches(
+            items.map((item) => item.tx),
+            undefined,
+            undefined,
+            cosigners.size,
+        );
+        const { repositoryFactory } = await this.symbolService.getNetwork();
+        const { currency } = await firstValueFrom(repositoryFactory.getCurrencies());
+
+        return {
+            sourcePubAccount,
+            desired,
+            options,
+            items,
+            maxFee: batches.reduce((acc, batch) => acc.add(batch.maxFee), UInt64.fromUint(0)),
+            batches: batches.length,
+            currency: {
+                name: currency.namespaceId?.fullName ?? currency.mosaicId?.toHex() ?? "",
+                divisibility: currency.divisibility,
+            },
+        };
+    }
+
+    // Announce the plan. Fails if the chain has been changed since planning (plan again in that case).
+    // Arguments:
+    //   - cosignerAccounts: Targets other than the signer
+    // Returns:
+    //   - undefined if succeeded, otherwise errors of batches.
+    public async apply(
+        plan: MetadataPlan,
+        signerAccount: Account,
+        cosignerAccounts: Account[] = [],
+        options?: ExecuteBatchesOptions,
+    ) {
+        if (!signerAccount.address.equals(plan.sourcePubAccount.address)) {
+            throw new Error("Signer must be the source of the plan");
+        }
+        // Deltas are XOR of the values at planning
+        const digest = (items: MetadataPlanItem[]) => items
+            .map((item) => `${item.compositeHash}:${Convert.uint8ToHex(item.oldValue)}:${Convert.uint8ToHex(item.newValue)}`)
+            .join(",");
+        const latest = await this.plan(plan.sourcePubAccount, plan.desired, plan.options);
+        if (digest(latest.items) !== digest(plan.items)) {
+            throw new Error("Plan is outdated");
+        }
+        if (!plan.items.length) {
+            return undefined;
+        }
+
+        const batches = await this.symbolService.buildSignedAggregateCompleteTxBatches(
+            plan.items.map((item) => item.tx),
+            signerAccount,
+            cosignerAccounts,
+        );
+        return this.symbolService.executeBatches(batches, signerAccount, undefined, options);
+    }
+
+}
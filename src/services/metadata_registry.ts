@@ -0,0 +1,228 @@
+import {
+    Account,
+    Address,
+    Convert,
+    MetadataType,
+    MosaicId,
+    NamespaceId,
+    PublicAccount,
+    UInt64
+} from "symbol-sdk";
+import { SymbolService } from "./symbol";
+
+
+// Encode typed value into metadata value and decode it back.
+// decode throws when the on-chain value is malformed.
+export interface MetadataCodec<T> {
+    name: string;
+    encode(value: T): Uint8Array;
+    decode(value: Uint8Array): T;
+}
+
+export namespace MetadataCodecs {
+
+    const decodeUtf8 = (value: Uint8Array) => {
+        try {
+            return new TextDecoder("utf-8", { fatal: true }).decode(value);
+        } catch (e) {
+            throw new Error("Invalid UTF-8 sequence");
+        }
+    };
+
+    export const bytes: MetadataCodec<Uint8Array> = {
+        name: "bytes",
+        encode: (value) => value,
+        decode: (value) => value,
+    };
+
+    export const utf8: MetadataCodec<string> = {
+        name: "utf8",
+        encode: (value) => Convert.utf8ToUint8(value),
+        decode: (value) => decodeUtf8(value),
+    };
+
+    export const json: MetadataCodec<any> = {
+        name: "json",
+        encode: (value) => Convert.utf8ToUint8(JSON.stringify(value)),
+        decode: (value) => {
+            const text = decodeUtf8(value);
+            try {
+                return JSON.parse(text);
+            } catch (e) {
+                throw new Error("Invalid JSON");
+            }
+        },
+    };
+
+    // Stored as decimal string
+    export const integer: MetadataCodec<number> = {
+        name: "integer",
+        encode: (value) => {
+            if (!Number.isSafeInteger(value)) {
+                throw new Error(`Not a safe integer: ${value}`);
+            }
+            return Convert.utf8ToUint8(value.toString());
+        },
+        decode: (value) => {
+            const text = decodeUtf8(value);
+            if (!text.match(/^-?\d+$/) || !Number.isSafeInteger(Number(text))) {
+                throw new Error(`Invalid integer: ${text}`);
+            }
+            return Number(text);
+        },
+    };
+
+    // Stored as "true" or "false"
+    export const boolean: MetadataCodec<boolean> = {
+        name: "boolean",
+        encode: (value) => Convert.utf8ToUint8(value ? "true" : "false"),
+        decode: (value) => {
+            const text = decodeUtf8(value);
+            if (text !== "true" && text !== "false") {
+                throw new Error(`Invalid boolean: ${text}`);
+            }
+            return text === "true";
+        },
+    };
+
+    // Stored as decimal string
+    export const uint64: MetadataCodec<UInt64> = {
+        name: "uint64",
+        encode: (value) => Convert.utf8ToUint8(value.toString()),
+        decode: (value) => {
+            const text = decodeUtf8(value);
+            // Out of range value doesn't survive round trip
+            if (!text.match(/^(0|[1-9]\d{0,19})$/) || UInt64.fromNumericString(text).toString() !== text) {
+                throw new Error(`Invalid UInt64: ${text}`);
+            }
+            return UInt64.fromNumericString(text);
+        },
+    };
+
+    // Stored as plain (Base32) address
+    export const address: MetadataCodec<Address> = {
+        name: "address",
+        encode: (value) => Convert.utf8ToUint8(value.plain()),
+        decode: (value) => {
+            const text = decodeUtf8(value);
+            if (!Address.isValidRawAddress(text)) {
+                throw new Error(`Invalid address: ${text}`);
+            }
+            return Address.createFromRawAddress(text);
+        },
+    };
+
+    // Encrypted with the shared key of account and peer (AES-GCM)
+    export const encrypted = (account: Account, peerPubAccount: PublicAccount): MetadataCodec<Uint8Array> => ({
+        name: "encrypted",
+        encode: (value) => SymbolService.encryptBinary(value, account, peerPubAccount),
+        decode: (value) => {
+            // Tag (16 bytes) + IV (12 bytes) + cipher text
+            if (value.length < 28) {
+                throw new Error("Invalid encrypted data");
+            }
+            // SDK returns empty data instead of throwing when authentication failed.
+            const plainData = SymbolService.decryptBinary(value, peerPubAccount, account);
+            if (!plainData.length && value.length > 28) {
+                throw new Error("Failed to decrypt");
+            }
+            return plainData;
+        },
+    });
+
+}
+
+// Typed metadata accessors based on registered key names and codecs.
+export class MetadataRegistry<S extends Record<string, any> = {}> {
+
+    private readonly fields = new Map<string, { name: string, codec: MetadataCodec<any> }>();
+
+    public constructor(private readonly symbolService: SymbolService) {}
+
+    public register<K extends string, T>(name: K, codec: MetadataCodec<T>) {
+        const key = SymbolService.generateKey(name).toHex();
+        const field = this.fields.get(key);
+        if (field) {
+            throw new Error(`Key "${name}" conflicts with registered key "${field.name}"`);
+        }
+        this.fields.set(key, { name, codec });
+        return this as unknown as MetadataRegistry<S & Record<K, T>>;
+    }
+
+    public getCodec<K extends keyof S & string>(name: K): MetadataCodec<S[K]> {
+        const field = this.fields.get(SymbolService.generateKey(name).toHex());
+        if (!field) {
+            throw new Error(`Key "${name}" is not registered`);
+        }
+        return field.codec;
+    }
+
+    public encode<K extends keyof S & string>(name: K, value: S[K]) {
+        return this.getCodec(name).encode(value);
+    }
+
+    public decode<K extends keyof S & string>(name: K, value: Uint8Array): S[K] {
+        try {
+            return this.getCodec(name).decode(value);
+        } catch (e) {
+            throw new Error(`Malformed value of "${name}": ${(e as Error).message}`);
+        }
+    }
+
+    // Returns:
+    //   - Decoded value, or undefined if not found.
+    public async get<K extends keyof S & string>(
+        type: MetadataType,
+        source: Account | PublicAccount | Address,
+        target: Account | PublicAccount | Address,
+        targetId: undefined | MosaicId | NamespaceId,
+        name: K,
+    ): Promise<S[K] | undefined> {
+        this.getCodec(name);
+        const metadata = (await this.symbolService.searchBinMetadata(
+            type,
+            { source, target, targetId, key: name },
+        )).shift();
+        return metadata && this.decode(name, metadata.metadataEntry.value);
+    }
+
+    // Create transaction to create or update the value.
+    // Returns:
+    //   - Metadata transaction, or undefined if the value is not changed.
+    public async set<K extends keyof S & string>(
+        type: MetadataType,
+        sourcePubAccount: PublicAccount,
+        targetPubAccount: PublicAccount,
+        targetId: undefined | MosaicId | NamespaceId,
+        name: K,
+        value: S[K],
+    ) {
+        return this.symbolService.updateMetadataTx(
+            type,
+            sourcePubAccount,
+            targetPubAccount,
+            targetId,
+            name,
+            this.encode(name, value),
+        );
+    }
+
+    // Decode all registered values of the source/target pair. Unregistered keys are ignored.
+    public async list(
+        type: MetadataType,
+        source: Account | PublicAccount | Address,
+        target: Account | PublicAccount | Address,
+        targetId?: MosaicId | NamespaceId,
+    ): Promise<Partial<S>> {
+        const metadataPool = await this.symbolService.searchBinMetadata(type, { source, target, targetId });
+        const values: Record<string, any> = {};
+        for (const metadata of metadataPool) {
+            const field = this.fields.get(metadata.metadataEntry.scopedMetadataKey.toHex());
+            if (field) {
+                values[field.name] = this.decode(field.name, metadata.metadataEntry.value);
+            }
+        }
+        return values as Partial<S>;
+    }
+
+}
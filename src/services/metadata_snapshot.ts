@@ -0,0 +1,239 @@
+import {
+    Account,
+    Address,
+    Convert,
+    InnerTransaction,
+    MetadataType,
+    MosaicId,
+    NamespaceId,
+    NetworkType,
+    PublicAccount,
+    UInt64
+} from "symbol-sdk";
+import { BinMetadataEntry } from "../libs";
+import { SymbolService } from "./symbol";
+
+
+// Portable form of BinMetadataEntry. Binary fields are hex strings and addresses are plain (Base32).
+export interface MetadataSnapshotEntry {
+    compositeHash: string;
+    type: MetadataType;
+    sourceAddress: string;
+    targetAddress: string;
+    scopedMetadataKey: string;
+    targetId?: string;
+    value: string;
+}
+
+export interface MetadataSnapshot {
+    version: string;
+    networkType: NetworkType;
+    // Account that owns or is targeted by the entries
+    address: string;
+    // ISO 8601
+    createdAt: string;
+    entries: MetadataSnapshotEntry[];
+}
+
+export interface RestoreMetadataOptions {
+    // Replace addresses in the snapshot (key is plain address) e.g. to restore onto other account or network.
+    addresses?: Record<string, Address>;
+    // Replace mosaic/namespace IDs in the snapshot (key is hex)
+    targetIds?: Record<string, MosaicId | NamespaceId>;
+    // Delete current entries that are not in the snapshot. Defaults to true.
+    // Entries whose source or target is not in pubAccounts (e.g. set by a third party) are kept.
+    prune?: boolean;
+}
+
+// Back up metadata of an account to JSON and restore it.
+export class MetadataSnapshotService {
+
+    private static VERSION = "1.0";
+
+    private static METADATA_TYPES = [ MetadataType.Account, MetadataType.Mosaic, MetadataType.Namespace ];
+
+    public static toSnapshotEntry(entry: BinMetadataEntry): MetadataSnapshotEntry {
+        return {
+            compositeHash: entry.compositeHash,
+            type: entry.metadataType,
+            sourceAddress: entry.sourceAddress.plain(),
+            targetAddress: entry.targetAddress.plain(),
+            scopedMetadataKey: entry.scopedMetadataKey.toHex(),
+            ...(entry.targetId ? { targetId: entry.targetId.toHex() } : {}),
+            value: Convert.uint8ToHex(entry.value),
+        };
+    }
+
+    public static stringify(snapshot: MetadataSnapshot) {
+        return JSON.stringify(snapshot, null, 2);
+    }
+
+    // Parse and validate JSON. Composite hashes are checked against the other fields.
+    public static parse(json: string): MetadataSnapshot {
+        let snapshot: any;
+        try {
+            snapshot = JSON.parse(json);
+        } catch (e) {
+            throw new Error("Malformed snapshot");
+        }
+        if (snapshot?.version !== MetadataSnapshotService.VERSION) {
+            throw new Error(`Version mismatched: ${snapshot?.version}`);
+        }
+        if (!Address.isValidRawAddress(snapshot.address) || !Array.isArray(snapshot.entries)) {
+            throw new Error("Malformed snapshot");
+        }
+        for (const entry of snapshot.entries as MetadataSnapshotEntry[]) {
+            let compositeHash: string;
+            try {
+                compositeHash = SymbolService.calculateMetadataHash(
+                    entry.type,
+                    Address.createFromRawAddress(entry.sourceAddress),
+                    Address.createFromRawAddress(entry.targetAddress),
+                    MetadataSnapshotService.toTargetId(entry.type, entry.targetId),
+                    UInt64.fromHex(entry.scopedMetadataKey),
+                );
+                Convert.hexToUint8(entry.value);
+            } catch (e) {
+                throw new Error(`Malformed entry: ${entry?.compositeHash}`);
+            }
+            if (compositeHash !== entry.compositeHash) {
+                throw new Error(`Composite hash mismatched: ${entry.compositeHash}`);
+            }
+        }
+        return snapshot;
+    }
+
+    private static toTargetId(type: MetadataType, targetId?: string) {
+        if (!targetId) {
+            return undefined;
+        }
+        return type === MetadataType.Mosaic ? new MosaicId(targetId) : NamespaceId.createFromEncoded(targetId);
+    }
+
+    public constructor(private readonly symbolService: SymbolService) {}
+
+    // All entries that the address is source or target of
+    private async searchEntries(address: Address) {
+        const entries = new Map<string, BinMetadataEntry>();
+        for (const type of MetadataSnapshotService.METADATA_TYPES) {
+            for (const criteria of [ { source: address }, { target: address } ]) {
+                for (const metadata of await this.symbolService.searchBinMetadata(type, criteria)) {
+                    entries.set(metadata.metadataEntry.compositeHash, metadata.metadataEntry);
+                }
+            }
+        }
+        return [ ...entries.values() ];
+    }
+
+    public async createSnapshot(account: Account | PublicAccount | Address): Promise<MetadataSnapshot> {
+        const address = SymbolService.isAddress(account) ? account : account.address;
+        const { networkType } = await this.symbolService.getNetwork();
+        return {
+            version: MetadataSnapshotService.VERSION,
+            networkType,
+            address: address.plain(),
+            createdAt: new Date().toISOString(),
+            entries: (await this.searchEntries(address)).map((entry) => MetadataSnapshotService.toSnapshotEntry(entry)),
+        };
+    }
+
+    // Create transactions that make current state of the (mapped) snapshot account same as the snapshot.
+    // Arguments:
+    //   - pubAccounts: Sources and targets of the transactions. All of them must sign (or cosign) eventually.
+    // Returns:
+    //   - Metadata transactions. Empty if nothing to do.
+    public async createRestoreTxs(
+        snapshot: MetadataSnapshot,
+        pubAccounts: PublicAccount[],
+        options?: RestoreMetadataOptions,
+    ) {
+        const mapAddress = (plainAddress: string) =>
+            options?.addresses?.[plainAddress] ?? Address.createFromRawAddress(plainAddress);
+        const hasPubAccount = (address: Address) =>
+            pubAccounts.some((pubAccount) => pubAccount.address.equals(address));
+        const findPubAccount = (address: Address) => {
+            const pubAccount = pubAccounts.find((pubAccount) => pubAccount.address.equals(address));
+            if (!pubAccount) {
+                throw new Error(`Public account of ${address.plain()} is required`);
+            }
+            return pubAccount;
+        };
+
+        // Desired state
+        const desired = new Map<string, BinMetadataEntry>();
+        for (const entry of snapshot.entries) {
+            const sourceAddress = mapAddress(entry.sourceAddress);
+            const targetAddress = mapAddress(entry.targetAddress);
+            const targetId = entry.targetId
+                ? options?.targetIds?.[entry.targetId] ?? MetadataSnapshotService.toTargetId(entry.type, entry.targetId)
+                : undefined;
+            const key = UInt64.fromHex(entry.scopedMetadataKey);
+            const compositeHash = SymbolService.calculateMetadataHash(
+                entry.type, sourceAddress, targetAddress, targetId, key,
+            );
+            desired.set(compositeHash, new BinMetadataEntry(
+                1,
+                compositeHash,
+                sourceAddress,
+                targetAddress,
+                key,
+                entry.type,
+                Convert.hexToUint8(entry.value),
+                targetId,
+            ));
+        }
+
+        const current = new Map<string, BinMetadataEntry>(
+            (await this.searchEntries(mapAddress(snapshot.address))).map((entry) => [ entry.compositeHash, entry ])
+        );
+
+        const txs = new Array<InnerTransaction>();
+        const createTx = async (entry: BinMetadataEntry, oldValue: Uint8Array, newValue: Uint8Array) => {
+            const { value, sizeDelta } = SymbolService.calculateMetadataDelta(oldValue, newValue);
+            txs.push(await this.symbolService.createMetadataTx(
+                entry.metadataType,
+                findPubAccount(entry.sourceAddress),
+                findPubAccount(entry.targetAddress),
+                entry.targetId as MosaicId | NamespaceId | undefined,
+                entry.scopedMetadataKey,
+                value,
+                sizeDelta,
+            ));
+        };
+
+        for (const [ compositeHash, entry ] of desired) {
+            const oldValue = current.get(compositeHash)?.value ?? new Uint8Array();
+            if (Convert.uint8ToHex(oldValue) !== Convert.uint8ToHex(entry.value)) {
+                await createTx(entry, oldValue, entry.value);
+            }
+        }
+        if (options?.prune ?? true) {
+            for (const [ compositeHash, entry ] of current) {
+                if (!desired.has(compositeHash) &&
+                    hasPubAccount(entry.sourceAddress) &&
+                    hasPubAccount(entry.targetAddress)
+                ) {
+                    await createTx(entry, entry.value, new Uint8Array());
+                }
+            }
+        }
+        return txs;
+    }
+
+    // Build signed batches to restore the snapshot. Pass them to executeBatches.
+    // All sources and targets except the signer must be in cosigners.
+    public async restore(
+        snapshot: MetadataSnapshot,
+        signerAccount: Account,
+        cosignerAccounts: Account[] = [],
+        options?: RestoreMetadataOptions,
+    ) {
+        const txs = await this.createRestoreTxs(
+            snapshot,
+            [ signerAccount, ...cosignerAccounts ].map((account) => account.publicAccount),
+            options,
+        );
+        return this.symbolService.buildSignedAggregateCompleteTxBatches(txs, signerAccount, cosignerAccounts);
+    }
+
+}
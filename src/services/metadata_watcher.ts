@@ -0,0 +1,255 @@
+import { concatMap, firstValueFrom, mergeMap, Observable } from "rxjs";
+import {
+    Address,
+    AggregateTransaction,
+    AggregateTransactionInfo,
+    MetadataType,
+    MosaicId,
+    MosaicMetadataTransaction,
+    NamespaceId,
+    NamespaceMetadataTransaction,
+    Transaction,
+    TransactionGroup,
+    TransactionSearchCriteria,
+    TransactionType,
+    UInt64
+} from "symbol-sdk";
+import { Logger, ResilientListener } from "../libs";
+import { MetadataTransaction, SymbolService } from "./symbol";
+
+
+export interface MetadataChange {
+    type: MetadataType;
+    compositeHash: string;
+    sourceAddress: Address;
+    targetAddress: Address;
+    scopedMetadataKey: UInt64;
+    targetId?: MosaicId | NamespaceId;
+    // Current value fetched from the node. undefined when deleted.
+    value?: Uint8Array;
+    // XOR delta of the transaction
+    valueDelta: Uint8Array;
+    valueSizeDelta: number;
+    // Hash of the aggregate transaction
+    txHash: string;
+    height: UInt64;
+}
+
+export interface WatchMetadataOptions {
+    type?: MetadataType;
+    key?: string | UInt64;
+    targetId?: MosaicId | NamespaceId;
+}
+
+// Metadata transaction with location in the chain
+interface LocatedMetadataTx {
+    tx: MetadataTransaction;
+    txHash: string;
+    index: number;
+    height: UInt64;
+}
+
+// Watch changes of metadata whose source or target is the address.
+export class MetadataWatchService {
+
+    private static METADATA_TX_TYPES = [
+        TransactionType.ACCOUNT_METADATA,
+        TransactionType.MOSAIC_METADATA,
+        TransactionType.NAMESPACE_METADATA,
+    ];
+
+    public static isMetadataTx(tx: Transaction): tx is MetadataTransaction {
+        return SymbolService.isMetadataTx(tx);
+    }
+
+    // Metadata transactions including inner transactions of aggregates
+    public static extractMetadataTxs(tx: Transaction): MetadataTransaction[] {
+        if (tx instanceof AggregateTransaction) {
+            return tx.innerTransactions.filter((innerTx) => MetadataWatchService.isMetadataTx(innerTx)) as MetadataTransaction[];
+        }
+        return MetadataWatchService.isMetadataTx(tx) ? [ tx ] : [];
+    }
+
+    private static locateMetadataTxs(tx: Transaction): LocatedMetadataTx[] {
+        const txHash = tx.transactionInfo?.hash;
+        const height = tx.transactionInfo?.height;
+        if (!txHash || !height) {
+            return [];
+        }
+        const innerTxs = tx instanceof AggregateTransaction ? tx.innerTransactions : [ tx ];
+        return innerTxs
+            .map((innerTx, index) => ({ tx: innerTx, txHash, index, height }))
+            .filter((located): located is LocatedMetadataTx => MetadataWatchService.isMetadataTx(located.tx));
+    }
+
+    public constructor(private readonly symbolService: SymbolService) {}
+
+    private async toChange({ tx, txHash, height }: LocatedMetadataTx): Promise<MetadataChange> {
+        const sourceAddress = tx.signer?.address;
+        if (!sourceAddress) {
+            throw new Error(`Metadata transaction without signer: ${txHash}`);
+        }
+        const targetAddress = await this.symbolService.resolveAddress(tx.targetAddress);
+        let type = MetadataType.Account;
+        let targetId: MosaicId | NamespaceId | undefined;
+        if (tx instanceof MosaicMetadataTransaction) {
+            type = MetadataType.Mosaic;
+            targetId = await this.symbolService.resolveMosaicId(tx.targetMosaicId);
+        } else if (tx instanceof NamespaceMetadataTransaction) {
+            type = MetadataType.Namespace;
+            targetId = tx.targetNamespaceId;
+        }
+        const compositeHash = SymbolService.calculateMetadataHash(
+            type, sourceAddress, targetAddress, targetId, tx.scopedMetadataKey,
+        );
+        const metadata = await this.symbolService.getBinMetadataByHash(compositeHash)
+            .catch((e) => {
+                if (SymbolService.isNotFoundError(e)) {
+                    return undefined;
+                }
+                throw e;
+            });
+
+        return {
+            type,
+            compositeHash,
+            sourceAddress,
+            targetAddress,
+            scopedMetadataKey: tx.scopedMetadataKey,
+            targetId,
+            value: metadata?.metadataEntry.value,
+            valueDelta: tx.value,
+            valueSizeDelta: SymbolService.toSignedSizeDelta(tx.valueSizeDelta),
+            txHash,
+            height,
+        };
+    }
+
+    private static matches(change: MetadataChange, address: Address, options?: WatchMetadataOptions) {
+        const key = typeof (options?.key) === "string" ? SymbolService.generateKey(options.key) : options?.key;
+        return (change.sourceAddress.equals(address) || change.targetAddress.equals(address)) &&
+            (options?.type === undefined || change.type === options.type) &&
+            (!key || change.scopedMetadataKey.equals(key)) &&
+            (!options?.targetId || change.targetId?.toHex() === options.targetId.toHex());
+    }
+
+    // Search confirmed metadata transactions (embedded in aggregates) between the heights
+    private async *searchMetadataTxs(address: Address, fromHeight: UInt64, toHeight: UInt64, pageSize: number = 100) {
+        const { repositoryFactory } = await this.symbolService.getNetwork();
+        const txHttp = repositoryFactory.createTransactionRepository();
+        const criteria: TransactionSearchCriteria = {
+            group: TransactionGroup.Confirmed,
+            address,
+            embedded: true,
+            type: MetadataWatchService.METADATA_TX_TYPES,
+            fromHeight,
+            toHeight,
+            pageSize,
+        };
+
+        let batch;
+        let pageNumber = 1;
+        do {
+            batch = await firstValueFrom(txHttp.search({ ...criteria, pageNumber: pageNumber++ }))
+                .then((page) => page.data);
+            for (const tx of batch) {
+                const info = tx.transactionInfo;
+                if (MetadataWatchService.isMetadataTx(tx) && info instanceof AggregateTransactionInfo) {
+                    yield { tx, txHash: info.aggregateHash, index: info.index, height: info.height } as LocatedMetadataTx;
+                }
+            }
+        } while (batch.length === pageSize);
+    }
+
+    // Emits changes that are confirmed after subscription.
+    // Changes are notified by WebSocket, and missed ones (while disconnected or in polling mode) are caught up
+    // by searching confirmed transactions.
+    public watch(address: Address, options?: WatchMetadataOptions) {
+        return new Observable<MetadataChange>((subscriber) => {
+            let listener: ResilientListener | undefined;
+            let closed = false;
+            // Transactions below this height have been covered by search
+            let fromHeight: UInt64 | undefined;
+            const seen = new Map<string, UInt64>();
+
+            const emit = async (located: LocatedMetadataTx) => {
+                const id = `${located.txHash}:${located.index}`;
+                if (!fromHeight || located.height.compare(fromHeight) < 0 || seen.has(id)) {
+                    return;
+                }
+                seen.set(id, located.height);
+                try {
+                    const change = await this.toChange(located);
+                    if (MetadataWatchService.matches(change, address, options)) {
+                        subscriber.next(change);
+                    }
+                } catch (e) {
+                    // Will be retried by next check
+                    seen.delete(id);
+                    Logger.warn(`Failed to handle metadata change: ${e}`);
+                }
+            };
+
+            const check = async () => {
+                const { repositoryFactory } = await this.symbolService.getNetwork();
+                const { height } = await firstValueFrom(repositoryFactory.createChainRepository().getChainInfo());
+                if (!fromHeight) {
+                    // Start watching from the next block
+                    fromHeight = height.add(UInt64.fromUint(1));
+                    return;
+                }
+                if (height.compare(fromHeight) < 0) {
+                    return;
+                }
+                for await (const located of this.searchMetadataTxs(address, fromHeight, height)) {
+                    await emit(located);
+                }
+                fromHeight = height.add(UInt64.fromUint(1));
+                for (const [ id, seenHeight ] of seen) {
+                    if (seenHeight.compare(fromHeight) < 0) {
+                        seen.delete(id);
+                    }
+                }
+            };
+
+            this.symbolService.createListener()
+                .then(async (resilientListener) => {
+                    // Unsubscribed while waiting. The listener may have been opened after teardown.
+                    const isClosed = () => {
+                        if (closed) {
+                            resilientListener.close();
+                        }
+                        return closed;
+                    };
+                    if (isClosed()) {
+                        return;
+                    }
+                    listener = resilientListener;
+                    await check();
+                    if (isClosed()) {
+                        return;
+                    }
+                    await listener.open();
+                    if (isClosed()) {
+                        return;
+                    }
+                    listener.watch({
+                        subscribe: (rawListener) => [
+                            rawListener.confirmed(address).pipe(
+                                mergeMap((tx) => MetadataWatchService.locateMetadataTxs(tx)),
+                                concatMap((located) => emit(located)),
+                            ).subscribe(),
+                        ],
+                        check,
+                    });
+                })
+                .catch((e) => subscriber.error(e));
+
+            return () => {
+                closed = true;
+                listener?.close();
+            };
+        });
+    }
+
+}
@@ -0,0 +1,160 @@
+import Long from "long";
+import { firstValueFrom } from "rxjs";
+import {
+    Address,
+    Mosaic,
+    MosaicId,
+    MosaicSupplyChangeAction,
+    PublicAccount,
+    UInt64
+} from "symbol-sdk";
+import { SymbolService } from "./symbol";
+
+
+export interface MosaicDetail {
+    mosaicId: MosaicId;
+    ownerAddress: Address;
+    supply: UInt64;
+    divisibility: number;
+    supplyMutable: boolean;
+    transferable: boolean;
+    restrictable: boolean;
+    revokable: boolean;
+    startHeight: UInt64;
+    duration: UInt64;
+    // undefined when the mosaic never expires
+    expiryHeight?: UInt64;
+    // Chain height at the lookup
+    height: UInt64;
+    expired: boolean;
+}
+
+// Supply changes and revocation of mosaics with guards that are checked before announcing.
+export class MosaicService {
+
+    public constructor(private readonly symbolService: SymbolService) {}
+
+    // Returns:
+    //   - Mosaic detail, or undefined if not found.
+    public async getMosaicInfo(mosaicId: MosaicId): Promise<MosaicDetail | undefined> {
+        const { repositoryFactory } = await this.symbolService.getNetwork();
+        const mosaicInfo = await firstValueFrom(repositoryFactory.createMosaicRepository().getMosaic(mosaicId))
+            .catch((e) => {
+                if (SymbolService.isNotFoundError(e)) {
+                    return undefined;
+                }
+                throw e;
+            });
+        if (!mosaicInfo) {
+            return undefined;
+        }
+        const { height } = await firstValueFrom(repositoryFactory.createChainRepository().getChainInfo());
+        const expiryHeight = mosaicInfo.duration.equals(UInt64.fromUint(0))
+            ? undefined
+            : mosaicInfo.startHeight.add(mosaicInfo.duration);
+
+        return {
+            mosaicId: mosaicInfo.id,
+            ownerAddress: mosaicInfo.ownerAddress,
+            supply: mosaicInfo.supply,
+            divisibility: mosaicInfo.divisibility,
+            supplyMutable: mosaicInfo.flags.supplyMutable,
+            transferable: mosaicInfo.flags.transferable,
+            restrictable: mosaicInfo.flags.restrictable,
+            revokable: mosaicInfo.flags.revokable,
+            startHeight: mosaicInfo.startHeight,
+            duration: mosaicInfo.duration,
+            expiryHeight,
+            height,
+            expired: !!expiryHeight && expiryHeight.compare(height) <= 0,
+        };
+    }
+
+    private async getBalance(address: Address, mosaicId: MosaicId) {
+        const { repositoryFactory } = await this.symbolService.getNetwork();
+        const accountInfo = await firstValueFrom(repositoryFactory.createAccountRepository().getAccountInfo(address))
+            .catch((e) => {
+                if (SymbolService.isNotFoundError(e)) {
+                    return undefined;
+                }
+                throw e;
+            });
+        return accountInfo?.mosaics.find((mosaic) => mosaic.id.equals(mosaicId))?.amount ?? UInt64.fromUint(0);
+    }
+
+    // Mosaic must exist, be active and be owned by the account
+    private async getOwnedMosaic(ownerPubAccount: PublicAccount, mosaicId: MosaicId) {
+        const mosaic = await this.getMosaicInfo(mosaicId);
+        if (!mosaic) {
+            throw new Error(`Mosaic ${mosaicId.toHex()} is not found`);
+        }
+        if (mosaic.expired) {
+            throw new Error(`Mosaic ${mosaicId.toHex()} is expired`);
+        }
+        if (!mosaic.ownerAddress.equals(ownerPubAccount.address)) {
+            throw new Error(`Mosaic ${mosaicId.toHex()} is not owned by ${ownerPubAccount.address.plain()}`);
+        }
+        return mosaic;
+    }
+
+    // Same rules as the network validates.
+    // Immutable supply can be changed only while the owner holds the entire supply (e.g. right after definition).
+    public async createSupplyChangeTx(
+        ownerPubAccount: PublicAccount,
+        mosaicId: MosaicId,
+        action: MosaicSupplyChangeAction,
+        delta: UInt64,
+    ) {
+        const mosaic = await this.getOwnedMosaic(ownerPubAccount, mosaicId);
+        if (delta.equals(UInt64.fromUint(0))) {
+            throw new Error("Delta must be positive");
+        }
+        const ownerBalance = await this.getBalance(ownerPubAccount.address, mosaicId);
+        if (!mosaic.supplyMutable && !ownerBalance.equals(mosaic.supply)) {
+            throw new Error(`Supply of mosaic ${mosaicId.toHex()} is immutable`);
+        }
+
+        const supply = Long.fromString(mosaic.supply.toString(), true);
+        const deltaAmount = Long.fromString(delta.toString(), true);
+        if (action === MosaicSupplyChangeAction.Increase) {
+            const { networkProperties } = await this.symbolService.getNetwork();
+            const maxAtomicUnits = networkProperties.chain.maxMosaicAtomicUnits?.replace(/'/g, "");
+            const newSupply = supply.add(deltaAmount);
+            if (maxAtomicUnits && (newSupply.lessThan(supply) || newSupply.greaterThan(Long.fromString(maxAtomicUnits, true)))) {
+                throw new Error(`Supply of mosaic ${mosaicId.toHex()} exceeds ${maxAtomicUnits}`);
+            }
+        } else if (supply.lessThan(deltaAmount) || Long.fromString(ownerBalance.toString(), true).lessThan(deltaAmount)) {
+            throw new Error(`Supply of mosaic ${mosaicId.toHex()} held by the owner is insufficient`);
+        }
+
+        return this.symbolService.createMosaicSupplyChangeTx(ownerPubAccount, mosaicId, action, delta);
+    }
+
+    public async createSupplyIncreaseTx(ownerPubAccount: PublicAccount, mosaicId: MosaicId, delta: UInt64) {
+        return this.createSupplyChangeTx(ownerPubAccount, mosaicId, MosaicSupplyChangeAction.Increase, delta);
+    }
+
+    public async createSupplyDecreaseTx(ownerPubAccount: PublicAccount, mosaicId: MosaicId, delta: UInt64) {
+        return this.createSupplyChangeTx(ownerPubAccount, mosaicId, MosaicSupplyChangeAction.Decrease, delta);
+    }
+
+    // Revoke the mosaic from the source account back to the owner.
+    public async createRevocationTx(
+        ownerPubAccount: PublicAccount,
+        sourceAddress: Address,
+        mosaic: Mosaic,
+    ) {
+        const mosaicId = await this.symbolService.resolveMosaicId(mosaic.id);
+        const detail = await this.getOwnedMosaic(ownerPubAccount, mosaicId);
+        if (!detail.revokable) {
+            throw new Error(`Mosaic ${mosaicId.toHex()} is not revokable`);
+        }
+        const balance = await this.getBalance(sourceAddress, mosaicId);
+        if (Long.fromString(balance.toString(), true).lessThan(Long.fromString(mosaic.amount.toString(), true))) {
+            throw new Error(`Balance of ${sourceAddress.plain()} is insufficient`);
+        }
+
+        return this.symbolService.createMosaicSupplyRevocationTx(ownerPubAccount, sourceAddress, mosaic);
+    }
+
+}
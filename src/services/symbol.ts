@@ -3,12 +3,16 @@ import { sha3_256 } from "js-sha3";
 import _ from "lodash";
 import Long from "long";
 import moment from "moment";
-import { firstValueFrom, Subscription } from "rxjs";
+import { catchError, defer, firstValueFrom, from, mergeMap, Observable, Subject, throwError } from "rxjs";
+import { TransactionStatusEnum } from "symbol-openapi-typescript-fetch-client";
 import {
     Account,
     AccountMetadataTransaction,
     Address,
+    AddressAliasTransaction,
     AggregateTransaction,
+    AggregateTransactionInfo,
+    AliasAction,
     Convert,
     CosignatureSignedTransaction,
     CosignatureTransaction,
@@ -22,6 +26,7 @@ import {
     MetadataSearchCriteria,
     MetadataType,
     Mosaic,
+    MosaicAliasTransaction,
     MosaicDefinitionTransaction,
     MosaicFlags,
     MosaicId,
@@ -29,16 +34,17 @@ import {
     MosaicNonce,
     MosaicSupplyChangeAction,
     MosaicSupplyChangeTransaction,
+    MosaicSupplyRevocationTransaction,
     NamespaceId,
     NamespaceMetadataTransaction,
     NamespaceRegistrationTransaction,
     NetworkConfiguration,
     NetworkType,
+    Order,
     PlainMessage,
     PublicAccount,
     RepositoryFactory,
     RepositoryFactoryConfig,
-    RepositoryFactoryHttp,
     SearcherRepository,
     SecretLockTransaction,
     SecretProofTransaction,
@@ -46,10 +52,26 @@ import {
     Transaction,
     TransactionFees,
     TransactionGroup,
+    TransactionMapping,
+    TransactionSearchCriteria,
+    TransactionType,
     TransferTransaction,
-    UInt64
+    UInt64,
+    UnresolvedAddress,
+    UnresolvedMosaicId
 } from "symbol-sdk";
-import { BinMetadataHttp, Logger } from "../libs";
+import { v4 as uuidv4 } from "uuid";
+import {
+    BinMetadataHttp,
+    BinMetadataRepository,
+    BinMetadataRepositoryFactoryHttp,
+    isBinMetadataRepositoryFactory,
+    Logger,
+    MerkleProof,
+    MerkleProofResult,
+    ResilientListener
+} from "../libs";
+import { NodeTrackerService } from "./node_tracker";
 
 
 export interface SignedAggregateTx {
@@ -65,10 +87,114 @@ export interface SymbolServiceConfig {
     deadline_hours: number;
     batch_size: number;
     max_parallels: number;
+    // Maximum serialized size of an aggregate transaction in bytes
+    max_aggregate_size?: number;
+    // Grace period after the deadline before an unconfirmed transaction is treated as expired
+    expiry_margin_secs?: number;
+    // "polling" waits transactions over HTTP only (for environments where WebSocket is blocked)
+    listener_mode?: "websocket" | "polling";
+    reconnect_interval_secs?: number;
+    max_reconnects?: number;
+    polling_interval_secs?: number;
+    // Number of node switching per request
+    max_failovers?: number;
+    // Cache lifetime of network info (0: never refresh)
+    fees_ttl_secs?: number;
+    properties_ttl_secs?: number;
     repo_factory_config?: RepositoryFactoryConfig;
     repo_factory?: RepositoryFactory;
+    // Switch to another node when the node is not available
+    node_tracker?: NodeTrackerService;
+    node_urls?: string[];
+    // Create repository factory for failover node (Default: BinMetadataRepositoryFactoryHttp)
+    repo_factory_provider?: (nodeUrl: string) => RepositoryFactory;
+}
+
+// Optional fields of SymbolServiceConfig are filled with defaults in SymbolService.
+export type SymbolServiceResolvedConfig = SymbolServiceConfig & Required<Pick<SymbolServiceConfig,
+    "max_aggregate_size" |
+    "expiry_margin_secs" |
+    "listener_mode" |
+    "reconnect_interval_secs" |
+    "max_reconnects" |
+    "polling_interval_secs" |
+    "max_failovers" |
+    "fees_ttl_secs" |
+    "properties_ttl_secs"
+>>;
+
+export interface WaitTxResult {
+    // Undefined when the batch has been aborted before signing
+    txHash?: string;
+    error?: string;
+    // The deadline has passed without confirmation
+    expired?: boolean;
+    // Gave up waiting by the timeout
+    timedOut?: boolean;
+    // Gave up announcing or waiting by the abort signal or fail-fast policy
+    aborted?: boolean;
+    // Transaction status code when failed
+    code?: string;
+    // Index of the batch aborted before announcing (executeBatches)
+    index?: number;
+}
+
+export interface BatchProgress {
+    // Identifies the call of executeBatches, because concurrent calls share batchObserver
+    runId: string;
+    type: "announced" | "confirmed" | "retrying" | "failed";
+    // Undefined when the batch has been aborted before signing
+    batch?: SignedAggregateTx;
+    index: number;
+    // Undefined when batches are streamed
+    total?: number;
+    // Count of re-signing
+    attempt?: number;
+    result?: WaitTxResult;
+}
+
+interface BatchTask {
+    index: number;
+    // attempt: Count of re-signing
+    sign: (attempt: number) => Promise<SignedAggregateTx>;
+    // Already signed batch
+    batch?: SignedAggregateTx;
+}
+
+export interface ExecuteBatchesOptions {
+    policy?: "continue" | "fail-fast";
+    signal?: AbortSignal;
+    // runId of the progress events (Default: Random UUID)
+    runId?: string;
+}
+
+export interface ExecuteUnsignedBatchesOptions extends ExecuteBatchesOptions {
+    maxRetries?: number;
+    feeRaiseRate?: number;
+    retryableStatuses?: string[];
+}
+
+export interface MetadataSearchOptions {
+    pageSize?: number;
+    order?: Order;
+    // Id of the entry to start after (cursor)
+    offset?: string;
+}
+
+export interface MetadataHistoryEntry {
+    // Value after the transaction. Empty when deleted.
+    value: Uint8Array;
+    // XOR delta of the transaction
+    valueDelta: Uint8Array;
+    valueSizeDelta: number;
+    height: UInt64;
+    // Hash of the aggregate transaction
+    txHash: string;
+    signer: PublicAccount;
 }
 
+export type NetworkFieldGroup = "fees" | "properties";
+
 export type MetadataTransaction = AccountMetadataTransaction |
     MosaicMetadataTransaction |
     NamespaceMetadataTransaction;
@@ -98,6 +224,35 @@ export class SymbolService {
         ).toString());
     };
 
+    // Convert decimal amount (e.g. "1.5") into atomic units of the mosaic without floating point errors.
+    // Throws when the amount is malformed, out of range or more precise than the divisibility.
+    public static toAtomicUnits(amount: string | number, divisibility: number) {
+        const text = amount.toString().trim();
+        const [ , integer, decimal = "" ] = text.match(/^(\d+)(?:\.(\d*))?$/) || [];
+        if (integer === undefined) {
+            throw new Error(`Invalid amount: ${text}`);
+        }
+        if (decimal.replace(/0+$/, "").length > divisibility) {
+            throw new Error(`Amount ${text} is more precise than divisibility ${divisibility}`);
+        }
+        const digits = `${integer}${decimal.padEnd(divisibility, "0").slice(0, divisibility)}`.replace(/^0+(?=\d)/, "");
+        const value = Long.fromString(digits, true);
+        if (value.toString() !== digits) {
+            throw new Error(`Amount ${text} is out of range`);
+        }
+        return UInt64.fromNumericString(value.toString());
+    }
+
+    // Format atomic units as decimal string without trailing zeros (e.g. "1.5")
+    public static fromAtomicUnits(atomicUnits: string | Long | UInt64, divisibility: number) {
+        const digits = (Long.isLong(atomicUnits) ? atomicUnits : Long.fromString(atomicUnits.toString(), true))
+            .toString()
+            .padStart(divisibility + 1, "0");
+        const integer = digits.slice(0, digits.length - divisibility);
+        const decimal = digits.slice(digits.length - divisibility).replace(/0+$/, "");
+        return `${integer}${decimal && "." + decimal}`;
+    }
+
     public static generateKey = (key: string) => KeyGenerator.generateUInt64Key(key);
 
     public static createNamespaceId(value: string) {
@@ -155,21 +310,76 @@ export class SymbolService {
         !!value && typeof(value.toDTO) === "function" && SymbolService.compareKeys(value, new Address());
     public static isUInt64 = (value?: any): value is UInt64 =>
         !!value && typeof(value.toDTO) === "function" && SymbolService.compareKeys(value, new UInt64([0, 0]));
+    // UInt64 has the same DTO as MosaicId, so ask the object itself.
+    public static isMosaicId = (value?: any): value is MosaicId =>
+        !!value && typeof(value.isMosaicId) === "function" && value.isMosaicId() === true;
+
+    private static COSIGNATURE_SIZE = 104;
+
+    // Parse numeric value of network properties (e.g. "1'000")
+    public static parseConfigNumber(value?: string) {
+        return value ? Number(value.replace(/'/g, "")) : undefined;
+    }
+
+    // Parse duration of network properties (e.g. "30s", "1d") into milliseconds
+    public static parseConfigDuration(value?: string) {
+        const [ , amount, unit ] = value?.replace(/'/g, "").match(/^(\d+)(ms|s|m|h|d)$/) || [];
+        const unitMsecs: Record<string, number> = { ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+        return unit ? Number(amount) * unitMsecs[unit] : undefined;
+    }
+
+    // Accepts network property style (e.g. "30d", "12h", "90m", "45s" or "500ms") or moment.Duration
+    public static toDurationMsecs(duration: string | moment.Duration) {
+        const msecs = moment.isDuration(duration)
+            ? duration.asMilliseconds()
+            : SymbolService.parseConfigDuration(duration);
+        if (msecs === undefined || !Number.isFinite(msecs) || msecs < 0) {
+            throw new Error(`Invalid duration: ${duration}`);
+        }
+        return msecs;
+    }
 
-    public readonly config: SymbolServiceConfig = {
+    public readonly config: SymbolServiceResolvedConfig = {
         node_url: "",
         fee_ratio: 0.0,
         deadline_hours: 2,
         batch_size: 100,
         max_parallels: 10,
+        max_aggregate_size: 1048576,
+        expiry_margin_secs: 30,
+        listener_mode: "websocket",
+        reconnect_interval_secs: 3,
+        max_reconnects: 10,
+        polling_interval_secs: 5,
+        max_failovers: 3,
+        fees_ttl_secs: 60,
+        properties_ttl_secs: 3600,
     };
 
+    private readonly _batchObserver = new Subject<BatchProgress>();
+
+    // Progress of executeBatches
+    public get batchObserver() {
+        return this._batchObserver;
+    }
+
+    private readonly _feeObserver = new Subject<{ previous: TransactionFees, current: TransactionFees }>();
+
+    // Emits when fee multipliers have been changed by refreshing network
+    public get feeObserver() {
+        return this._feeObserver;
+    }
+
     // You MUST call once this function and setup Node URL before access the node.
     public constructor(cfg: Partial<SymbolServiceConfig>) {
         this.config = {...this.config, ...cfg};
         this.network = null;
     }
 
+    private repositoryFactory?: RepositoryFactory;
+    private generationHash?: string;
+    private failingOver?: Promise<void>;
+
     // Local cache
     network: {
         networkType: NetworkType,
@@ -180,12 +390,18 @@ export class SymbolService {
         transactionFees: TransactionFees,
         networkProperties: NetworkConfiguration,
         updated_at: number,
+        fees_updated_at: number,
+        properties_updated_at: number,
     } | null = null;
+    private readonly refreshing = new Map<NetworkFieldGroup, Promise<void>>();
 
-    public async getNetwork() {
+    // Static fields (generation hash etc.) never expire.
+    // transactionFees and networkProperties are refreshed after fees_ttl_secs / properties_ttl_secs.
+    public async getNetwork(): Promise<NonNullable<SymbolService["network"]>> {
         if (!this.network) {
-            const repositoryFactory = this.config.repo_factory ||
-                new RepositoryFactoryHttp(this.config.node_url, this.config.repo_factory_config);
+            const repositoryFactory = this.canFailover()
+                ? this.failoverRepositoryFactory
+                : this.getRepositoryFactory();
             const epochAdjustment = await firstValueFrom(repositoryFactory.getEpochAdjustment());
             const networkGenerationHash = await firstValueFrom(repositoryFactory.getGenerationHash());
             const networkCurrencyMosaicId = (await firstValueFrom(repositoryFactory.getCurrencies())).currency.mosaicId;
@@ -194,6 +410,7 @@ export class SymbolService {
             const transactionFees = await firstValueFrom(networkHttp.getTransactionFees());
             const networkType = await firstValueFrom(networkHttp.getNetworkType());
             const networkProperties = await firstValueFrom(networkHttp.getNetworkProperties());
+            const now = moment.now();
 
             this.network = {
                 networkType,
@@ -203,11 +420,259 @@ export class SymbolService {
                 networkCurrencyMosaicId,
                 transactionFees,
                 networkProperties,
-                updated_at: moment.now(),
+                updated_at: now,
+                fees_updated_at: now,
+                properties_updated_at: now,
             };
+        } else {
+            const isExpired = (updatedAt: number, ttlSecs: number) =>
+                ttlSecs > 0 && updatedAt + ttlSecs * 1000 <= moment.now();
+            const groups = new Array<NetworkFieldGroup>();
+            if (isExpired(this.network.fees_updated_at, this.config.fees_ttl_secs)) {
+                groups.push("fees");
+            }
+            if (isExpired(this.network.properties_updated_at, this.config.properties_ttl_secs)) {
+                groups.push("properties");
+            }
+            if (groups.length) {
+                // Keep stale values when failed to refresh
+                await this.refreshNetwork(groups)
+                    .catch((e) => Logger.warn(`Failed to refresh network: ${e}`));
+            }
         }
 
-        return this.network;
+        // Network might be reset by failover while refreshing
+        return this.network ?? this.getNetwork();
+    }
+
+    // Fetch transactionFees and/or networkProperties again regardless of TTL.
+    public async refreshNetwork(groups: NetworkFieldGroup[] = [ "fees", "properties" ]) {
+        if (!this.network) {
+            return this.getNetwork();
+        }
+        const network = this.network;
+        const networkHttp = network.repositoryFactory.createNetworkRepository();
+
+        await Promise.all(groups.map((group) => {
+            // Share the request while refreshing
+            let refreshing = this.refreshing.get(group);
+            if (!refreshing) {
+                refreshing = (async () => {
+                    if (group === "fees") {
+                        const previous = network.transactionFees;
+                        const current = await firstValueFrom(networkHttp.getTransactionFees());
+                        network.transactionFees = current;
+                        network.fees_updated_at = moment.now();
+                        if (previous.minFeeMultiplier !== current.minFeeMultiplier ||
+                            previous.averageFeeMultiplier !== current.averageFeeMultiplier
+                        ) {
+                            Logger.debug(`Fee multiplier changed: ${previous.averageFeeMultiplier} -> ${current.averageFeeMultiplier}`);
+                            this._feeObserver.next({ previous, current });
+                        }
+                    } else {
+                        network.networkProperties = await firstValueFrom(networkHttp.getNetworkProperties());
+                        network.properties_updated_at = moment.now();
+                    }
+                    network.updated_at = moment.now();
+                })().finally(() => {
+                    this.refreshing.delete(group);
+                });
+                this.refreshing.set(group, refreshing);
+            }
+            return refreshing;
+        }));
+
+        return network;
+    }
+
+    private canFailover() {
+        return !!this.config.node_tracker || !!this.config.node_urls?.length;
+    }
+
+    private createRepositoryFactory(nodeUrl: string) {
+        return this.config.repo_factory_provider?.(nodeUrl) ||
+            new BinMetadataRepositoryFactoryHttp(nodeUrl, this.config.repo_factory_config);
+    }
+
+    // Repository factory of current node
+    private getRepositoryFactory() {
+        if (!this.repositoryFactory) {
+            this.repositoryFactory = this.config.repo_factory || this.createRepositoryFactory(this.config.node_url);
+        }
+        return this.repositoryFactory;
+    }
+
+    // Connection errors and server errors are subject to failover (Not found etc. are not)
+    private static isNodeError(e: any) {
+        if (!(e instanceof Error)) {
+            return false;
+        }
+        try {
+            const { statusCode } = JSON.parse(e.message);
+            return !statusCode || statusCode >= 500;
+        } catch (_) {
+            // Connection errors are not formatted by symbol-sdk
+            return true;
+        }
+    }
+
+    public static isNotFoundError(e: any) {
+        try {
+            return JSON.parse(e?.message).statusCode === 404;
+        } catch (_) {
+            return false;
+        }
+    }
+
+    // Call against current node, and retry on another node when the node is not available.
+    private withFailover<T>(call: () => Observable<T>, retries: number = this.config.max_failovers): Observable<T> {
+        const nodeUrl = this.config.node_url;
+        return defer(call).pipe(
+            catchError((e) => retries > 0 && SymbolService.isNodeError(e)
+                ? from(this.failover(e, nodeUrl)).pipe(mergeMap(() => this.withFailover(call, retries - 1)))
+                : throwError(() => e)
+            ),
+        );
+    }
+
+    // Dispatch every request to current node. Requests to unavailable node are retried on another node.
+    private readonly failoverRepositoryFactory = new Proxy({} as RepositoryFactory, {
+        get: (_target, prop) => {
+            const property = (factory: RepositoryFactory) => (factory as any)[prop];
+            if (typeof property(this.getRepositoryFactory()) !== "function") {
+                return property(this.getRepositoryFactory());
+            }
+            if (prop === "createListener") {
+                return () => this.createFailoverListener();
+            }
+            if (typeof prop === "string" && prop.startsWith("create")) {
+                return (...createArgs: any[]) => this.createFailoverRepository(
+                    (factory) => property(factory).apply(factory, createArgs)
+                );
+            }
+            return (...args: any[]) => this.withFailover(
+                () => property(this.getRepositoryFactory()).apply(this.getRepositoryFactory(), args)
+            );
+        },
+    });
+
+    // Repository whose requests are dispatched to the repository of current node.
+    private createFailoverRepository<T extends object>(create: (factory: RepositoryFactory) => T): T {
+        return new Proxy({} as T, {
+            get: (_target, method) => (...args: any[]) => this.withFailover(
+                () => (create(this.getRepositoryFactory()) as any)[method](...args)
+            ),
+        });
+    }
+
+    private createBinMetadataRepositoryOf(factory: RepositoryFactory): BinMetadataRepository {
+        return isBinMetadataRepositoryFactory(factory)
+            ? factory.createBinMetadataRepository()
+            : new BinMetadataHttp(this.config.node_url, this.config.repo_factory_config?.fetchApi);
+    }
+
+    // Binary metadata repository of the same node as other repositories.
+    // Repository factories that don't implement createBinMetadataRepository fall back to BinMetadataHttp.
+    public createBinMetadataRepository(): BinMetadataRepository {
+        return this.canFailover()
+            ? this.createFailoverRepository((factory) => this.createBinMetadataRepositoryOf(factory))
+            : this.createBinMetadataRepositoryOf(this.getRepositoryFactory());
+    }
+
+    // Listener that connects to another node when failed to open.
+    private createFailoverListener(): IListener {
+        let listener = this.getRepositoryFactory().createListener();
+        const open = async (onUnsolicitedCloseCallback?: (event: { client: string, code: any, reason: any }) => void) => {
+            for (let retries = this.config.max_failovers; ; retries--) {
+                const nodeUrl = this.config.node_url;
+                try {
+                    return await listener.open(onUnsolicitedCloseCallback);
+                } catch (e) {
+                    if (retries <= 0) {
+                        throw e;
+                    }
+                    await this.failover(e, nodeUrl);
+                    listener = this.getRepositoryFactory().createListener();
+                }
+            }
+        };
+
+        return new Proxy({} as IListener, {
+            get: (_target, prop) => {
+                if (prop === "open") {
+                    return open;
+                }
+                const value = (listener as any)[prop];
+                return typeof value === "function" ? value.bind(listener) : value;
+            },
+        });
+    }
+
+    // Switch to another healthy node that has same generation hash.
+    // Arguments:
+    //   - failedNodeUrl: Skip switching if the node has already been switched from it.
+    public async failover(error?: any, failedNodeUrl: string = this.config.node_url) {
+        if (this.failingOver) {
+            await this.failingOver.catch(() => undefined);
+        }
+        if (this.config.node_url !== failedNodeUrl) {
+            return this.config.node_url;
+        }
+
+        this.failingOver = (async () => {
+            Logger.warn(`Node ${failedNodeUrl} is not available: ${error}`);
+            const generationHash = this.network?.networkGenerationHash || this.generationHash;
+
+            const tracker = this.config.node_tracker;
+            for (const nodeUrl of this.listFailoverNodes(failedNodeUrl)) {
+                try {
+                    // Check one by one, and stop at the first node that matches.
+                    if (tracker && !await tracker.checkHealth(nodeUrl)) {
+                        Logger.warn(`Node ${nodeUrl} is not healthy.`);
+                        continue;
+                    }
+                    const repositoryFactory = this.createRepositoryFactory(nodeUrl);
+                    const nodeGenerationHash = await firstValueFrom(repositoryFactory.getGenerationHash());
+                    if (generationHash && nodeGenerationHash !== generationHash) {
+                        Logger.warn(`Node ${nodeUrl} has different generation hash: ${nodeGenerationHash}`);
+                        continue;
+                    }
+
+                    Logger.info(`Switched node to ${nodeUrl}`);
+                    this.generationHash = nodeGenerationHash;
+                    this.config.node_url = nodeUrl;
+                    this.repositoryFactory = repositoryFactory;
+                    // Network properties and fees may be different.
+                    this.network = null;
+                    return;
+                } catch (e) {
+                    Logger.warn(`Node ${nodeUrl} is not available: ${e}`);
+                }
+            }
+
+            throw error || new Error("No available node.");
+        })();
+
+        return this.failingOver
+            .then(() => this.config.node_url)
+            .finally(() => {
+                this.failingOver = undefined;
+            });
+    }
+
+    private listFailoverNodes(failedNodeUrl: string) {
+        const tracker = this.config.node_tracker;
+        if (tracker) {
+            // Random order of the available nodes
+            return tracker.pickMulti(tracker.availableNodes.length)
+                .map((node) => node.apiStatus.restGatewayUrl)
+                .filter((nodeUrl) => nodeUrl !== failedNodeUrl);
+        }
+
+        // Round robin from next of the failed node
+        const nodeUrls = this.config.node_urls || [];
+        const index = nodeUrls.indexOf(failedNodeUrl);
+        return [ ...nodeUrls.slice(index + 1), ...nodeUrls.slice(0, index) ];
     }
 
     public async getFeeMultiplier(ratio: number = this.config.fee_ratio) {
@@ -298,6 +763,8 @@ export class SymbolService {
         return this.announceTx(completeSignedTx).then((res) => res.message);
     }
 
+    // Arguments:
+    //   - durationBlocks: Zero means eternal. Use durationToBlocks() to convert from duration (e.g. "365d").
     // Returns:
     //   - txs: Array of InnerTransaction
     //   - mosaicId: Generated mosaic ID
@@ -305,7 +772,7 @@ export class SymbolService {
         creatorPubAccount: PublicAccount,
         durationBlocks: UInt64,
         divisibility: number,
-        supplyAmount: number,
+        supplyAmount: number | string,
         isSupplyMutable: boolean = true,
         isTransferable: boolean = true,
         isRestrictable: boolean = true,
@@ -334,7 +801,7 @@ export class SymbolService {
                 Deadline.create(epochAdjustment, this.config.deadline_hours),
                 mosaicId,
                 MosaicSupplyChangeAction.Increase,
-                UInt64.fromUint(supplyAmount * Math.pow(10, divisibility)),
+                SymbolService.toAtomicUnits(supplyAmount, divisibility),
                 networkType,
             ).toAggregate(creatorPubAccount)
         );
@@ -345,9 +812,61 @@ export class SymbolService {
         };
     }
 
+    // Extend the duration of the mosaic. Nonce must be the same as the definition.
+    // Redefinition XORs flags and divisibility, so both are zero to keep the current ones.
+    public async createMosaicRenewalTx(
+        ownerPubAccount: PublicAccount,
+        nonce: MosaicNonce,
+        mosaicId: MosaicId,
+        durationBlocks: UInt64,
+    ) {
+        const {epochAdjustment, networkType} = await this.getNetwork();
+        return MosaicDefinitionTransaction.create(
+            Deadline.create(epochAdjustment, this.config.deadline_hours),
+            nonce,
+            mosaicId,
+            MosaicFlags.create(false, false, false, false),
+            0,
+            durationBlocks,
+            networkType,
+        ).toAggregate(ownerPubAccount);
+    }
+
+    public async createMosaicSupplyChangeTx(
+        ownerPubAccount: PublicAccount,
+        mosaicId: MosaicId,
+        action: MosaicSupplyChangeAction,
+        delta: UInt64,
+    ) {
+        const {epochAdjustment, networkType} = await this.getNetwork();
+        return MosaicSupplyChangeTransaction.create(
+            Deadline.create(epochAdjustment, this.config.deadline_hours),
+            mosaicId,
+            action,
+            delta,
+            networkType,
+        ).toAggregate(ownerPubAccount);
+    }
+
+    // Take back the mosaic from the source account. The mosaic must be revokable.
+    public async createMosaicSupplyRevocationTx(
+        ownerPubAccount: PublicAccount,
+        sourceAddress: Address,
+        mosaic: Mosaic,
+    ) {
+        const {epochAdjustment, networkType} = await this.getNetwork();
+        return MosaicSupplyRevocationTransaction.create(
+            Deadline.create(epochAdjustment, this.config.deadline_hours),
+            sourceAddress,
+            mosaic,
+            networkType,
+        ).toAggregate(ownerPubAccount);
+    }
+
     // Arguments:
     //   - name: The name can be up to 64 characters long.
-    //   - durationBlocks: At least 86400 (30minutes) or long
+    //   - durationBlocks: At least minNamespaceDuration of the network ("30d", that is 86400 blocks of 30 seconds).
+    //     Use durationToBlocks() to convert from duration (e.g. "365d").
     public async createNamespaceRegistrationTx(
         ownerPubAccount: PublicAccount,
         name: string,
@@ -362,6 +881,60 @@ export class SymbolService {
         ).toAggregate(ownerPubAccount);
     }
 
+    // Arguments:
+    //   - name: Name of the child only (e.g. "bar" for "foo.bar")
+    //   - parentNamespace: Full name (e.g. "foo") or ID of the parent. Expiration follows the root namespace.
+    public async createSubNamespaceRegistrationTx(
+        ownerPubAccount: PublicAccount,
+        name: string,
+        parentNamespace: string | NamespaceId,
+    ) {
+        const {epochAdjustment, networkType} = await this.getNetwork();
+        return NamespaceRegistrationTransaction.createSubNamespace(
+            Deadline.create(epochAdjustment, this.config.deadline_hours),
+            name,
+            parentNamespace,
+            networkType,
+        ).toAggregate(ownerPubAccount);
+    }
+
+    // Arguments:
+    //   - namespace: Full name (e.g. "foo.bar") or ID of the namespace owned by the account
+    public async createAddressAliasTx(
+        ownerPubAccount: PublicAccount,
+        namespace: string | NamespaceId,
+        address: Address,
+        aliasAction: AliasAction = AliasAction.Link,
+    ) {
+        const {epochAdjustment, networkType} = await this.getNetwork();
+        return AddressAliasTransaction.create(
+            Deadline.create(epochAdjustment, this.config.deadline_hours),
+            aliasAction,
+            typeof (namespace) === "string" ? SymbolService.createNamespaceId(namespace) : namespace,
+            address,
+            networkType,
+        ).toAggregate(ownerPubAccount);
+    }
+
+    // Arguments:
+    //   - namespace: Full name (e.g. "foo.bar") or ID of the namespace owned by the account
+    //   - mosaicId: The mosaic must be owned by the account too
+    public async createMosaicAliasTx(
+        ownerPubAccount: PublicAccount,
+        namespace: string | NamespaceId,
+        mosaicId: MosaicId,
+        aliasAction: AliasAction = AliasAction.Link,
+    ) {
+        const {epochAdjustment, networkType} = await this.getNetwork();
+        return MosaicAliasTransaction.create(
+            Deadline.create(epochAdjustment, this.config.deadline_hours),
+            aliasAction,
+            typeof (namespace) === "string" ? SymbolService.createNamespaceId(namespace) : namespace,
+            mosaicId,
+            networkType,
+        ).toAggregate(ownerPubAccount);
+    }
+
     // When type is mosaic: targetAccount must be mosaic creator
     // When type is namespace: targetAccount must be namespace owner
     public async createMetadataTx(
@@ -416,6 +989,94 @@ export class SymbolService {
         }
     }
 
+    // Calculate value (XOR of old and new) and sizeDelta of metadata transaction.
+    // Pass empty newValue to delete.
+    public static calculateMetadataDelta(oldValue: Uint8Array, newValue: Uint8Array) {
+        const value = new Uint8Array(Math.max(oldValue.length, newValue.length));
+        for (let i = 0; i < value.length; i++) {
+            value[i] = (oldValue[i] || 0) ^ (newValue[i] || 0);
+        }
+        return {
+            value,
+            sizeDelta: newValue.length - oldValue.length,
+        };
+    }
+
+    // Reverse of calculateMetadataDelta. Returns new value from old value and the delta.
+    public static applyMetadataDelta(oldValue: Uint8Array, valueDelta: Uint8Array, sizeDelta: number) {
+        const size = oldValue.length + sizeDelta;
+        if (size < 0) {
+            throw new Error(`Invalid size delta: ${sizeDelta}`);
+        }
+        const value = new Uint8Array(size);
+        for (let i = 0; i < value.length; i++) {
+            value[i] = (oldValue[i] || 0) ^ (valueDelta[i] || 0);
+        }
+        return value;
+    }
+
+    // valueSizeDelta may be parsed as unsigned 16 bits integer
+    public static toSignedSizeDelta(valueSizeDelta: number) {
+        return valueSizeDelta > 0x7FFF ? valueSizeDelta - 0x10000 : valueSizeDelta;
+    }
+
+    public static isMetadataTx(tx: Transaction): tx is MetadataTransaction {
+        return tx instanceof AccountMetadataTransaction ||
+            tx instanceof MosaicMetadataTransaction ||
+            tx instanceof NamespaceMetadataTransaction;
+    }
+
+    // Create, update or delete metadata according to current on-chain value.
+    // Arguments:
+    //   - value: New value. Empty value deletes the metadata.
+    // Returns:
+    //   - Metadata transaction, or undefined if no change is required.
+    public async updateMetadataTx(
+        type: MetadataType,
+        sourcePubAccount: PublicAccount,
+        targetPubAccount: PublicAccount,
+        targetId: undefined | MosaicId | NamespaceId | string,
+        key: string | UInt64,
+        value: string | Uint8Array,
+    ) {
+        const newValue = typeof (value) === "string" ? Convert.utf8ToUint8(value) : value;
+        const actualKey = typeof (key) === "string" ? SymbolService.generateKey(key) : key;
+        const actualTargetId = typeof (targetId) === "string"
+            ? (type === MetadataType.Mosaic ? new MosaicId(targetId) : new NamespaceId(targetId))
+            : targetId;
+        const compositeHash = SymbolService.calculateMetadataHash(
+            type,
+            sourcePubAccount.address,
+            targetPubAccount.address,
+            actualTargetId,
+            actualKey,
+        );
+        const oldValue = (await this.getBinMetadataByHash(compositeHash)
+            .catch((e) => {
+                if (SymbolService.isNotFoundError(e)) {
+                    return undefined;
+                }
+                throw e;
+            })
+        )?.metadataEntry.value || new Uint8Array();
+
+        if (_.isEqual(Array.from(oldValue), Array.from(newValue))) {
+            Logger.debug(`Metadata ${compositeHash} is not changed.`);
+            return undefined;
+        }
+
+        const { value: deltaValue, sizeDelta } = SymbolService.calculateMetadataDelta(oldValue, newValue);
+        return this.createMetadataTx(
+            type,
+            sourcePubAccount,
+            targetPubAccount,
+            actualTargetId,
+            actualKey,
+            deltaValue,
+            sizeDelta,
+        );
+    }
+
     public async composeAggregateCompleteTx(
         feeMultiplier: number,
         requiredCosignatures: number,
@@ -455,102 +1116,193 @@ export class SymbolService {
             .catch(() => undefined);
     }
 
+    // Returns unix time in milliseconds
+    public async getDeadlineTime(deadline: Deadline) {
+        const {epochAdjustment} = await this.getNetwork();
+        return deadline.adjustedValue + epochAdjustment * 1000;
+    }
+
+    // Pass SignedTransaction instead of hash to detect expiry even if the node has dropped the transaction.
     private async listenTxs(
-        listener: IListener,
+        listener: ResilientListener,
         account: Account | PublicAccount,
-        txHashes: string[],
+        txs: (string | SignedTransaction)[],
         group: "confirmed" | "partial" | "all" = "confirmed",
+        timeout?: number,
+        signal?: AbortSignal,
     ) {
         const {repositoryFactory} = await this.getNetwork();
         const statusHttp = repositoryFactory.createTransactionStatusRepository();
-        const subscriptions = new Array<Subscription>();
-
-        const promises = txHashes.map((txHash) => new Promise<{ txHash: string, error?: string }>(
-            async (resolve, reject) => {
-                subscriptions.push(
-                    listener.status(account.address, txHash)
-                        .subscribe({
-                            next: async (value) => {
-                                const error = `Received error status: ${value.code}`;
-                                Logger.debug(error);
-                                resolve({txHash, error});
-                            },
-                            error: (e) => {
-                                reject(e);
-                            }
-                        })
-                );
-                if (["confirmed", "all"].includes(group)) {
-                    subscriptions.push(
-                        listener.confirmed(account.address, txHash)
-                            .subscribe({
-                                next: async () => {
-                                    resolve({txHash, error: undefined});
-                                },
-                                error: (e) => {
-                                    reject(e);
-                                }
-                            })
-                    );
+        const unwatches = new Array<() => void>();
+        const timers = new Array<ReturnType<typeof setTimeout>>();
+        let finished = false;
+
+        const isSettled = async (txHash: string) =>
+            (["confirmed", "all"].includes(group) && !!await this.getConfirmedTx(txHash)) ||
+            (["partial", "all"].includes(group) && !!await this.getPartialTx(txHash));
+
+        const promises = txs.map((tx) => new Promise<WaitTxResult>(
+            (resolve, reject) => {
+                const txHash = typeof (tx) === "string" ? tx : tx.hash;
+                let deadline = typeof (tx) === "string"
+                    ? undefined
+                    : TransactionMapping.createFromPayload(tx.payload).deadline;
+                let expiryScheduled = false;
+
+                if (signal) {
+                    const onAbort = () => resolve({txHash, error: "Aborted", aborted: true});
+                    if (signal.aborted) {
+                        return onAbort();
+                    }
+                    signal.addEventListener("abort", onAbort);
+                    unwatches.push(() => signal.removeEventListener("abort", onAbort));
                 }
-                if (["partial", "all"].includes(group)) {
-                    subscriptions.push(
-                        listener.aggregateBondedAdded(account.address, txHash, true)
+
+                if (timeout !== undefined) {
+                    timers.push(setTimeout(() => {
+                        Logger.debug(`Timed out: ${txHash}`);
+                        resolve({txHash, error: `Timed out after ${timeout} msecs`, timedOut: true});
+                    }, timeout));
+                }
+
+                // Detect expiry
+                const scheduleExpiry = async () => {
+                    if (!deadline || expiryScheduled) {
+                        return;
+                    }
+                    expiryScheduled = true;
+                    const deadlineTime = await this.getDeadlineTime(deadline);
+                    const checkExpiry = async () => {
+                        // The transaction might be confirmed while the listener was not notified.
+                        if (await isSettled(txHash).catch(() => false)) {
+                            resolve({txHash, error: undefined});
+                        } else if (await this.getChainTimestamp().catch(() => 0) >= deadlineTime) {
+                            // Judge by the latest block, because the local clock may be ahead or the chain may stall.
+                            Logger.debug(`Expired: ${txHash}`);
+                            resolve({txHash, error: "Transaction expired without confirmation", expired: true});
+                        } else if (!finished) {
+                            timers.push(setTimeout(checkExpiry, this.config.polling_interval_secs * 1000));
+                        }
+                    };
+                    const expiresAt = deadlineTime + this.config.expiry_margin_secs * 1000;
+                    timers.push(setTimeout(checkExpiry, Math.max(expiresAt - moment.now(), 0)));
+                };
+
+                unwatches.push(listener.watch({
+                    subscribe: (wsListener) => [
+                        wsListener.status(account.address, txHash)
                             .subscribe({
-                                next: async () => {
-                                    resolve({txHash, error: undefined});
+                                next: async (value) => {
+                                    const error = `Received error status: ${value.code}`;
+                                    Logger.debug(error);
+                                    resolve({
+                                        txHash,
+                                        error,
+                                        expired: value.code === TransactionStatusEnum.FailureCorePastDeadline || undefined,
+                                        code: value.code,
+                                    });
                                 },
                                 error: (e) => {
                                     reject(e);
                                 }
-                            })
-                    );
-                }
+                            }),
+                        ...(["confirmed", "all"].includes(group) ? [
+                            wsListener.confirmed(account.address, txHash)
+                                .subscribe({
+                                    next: async () => {
+                                        resolve({txHash, error: undefined});
+                                    },
+                                    error: (e) => {
+                                        reject(e);
+                                    }
+                                }),
+                        ] : []),
+                        ...(["partial", "all"].includes(group) ? [
+                            wsListener.aggregateBondedAdded(account.address, txHash, true)
+                                .subscribe({
+                                    next: async () => {
+                                        resolve({txHash, error: undefined});
+                                    },
+                                    error: (e) => {
+                                        reject(e);
+                                    }
+                                }),
+                        ] : []),
+                    ],
+                    check: async () => {
+                        try {
+                            const status = await firstValueFrom(statusHttp.getTransactionStatus(txHash))
+                                .catch(() => undefined);
+                            if (status?.code?.startsWith("Failure")) {
+                                // Transaction Failed
+                                const error = `Received error status: ${status.code}`;
+                                Logger.debug(error);
+                                resolve({
+                                    txHash,
+                                    error: error,
+                                    expired: status.code === TransactionStatusEnum.FailureCorePastDeadline || undefined,
+                                    code: status.code,
+                                });
+                            } else if (await isSettled(txHash)) {
+                                // Already confirmed
+                                resolve({txHash, error: undefined});
+                            }
 
-                const status = await firstValueFrom(statusHttp.getTransactionStatus(txHash))
-                    .catch(() => undefined);
-                if (status?.code?.startsWith("Failure")) {
-                    // Transaction Failed
-                    const error = `Received error status: ${status.code}`;
-                    Logger.debug(error);
-                    resolve({txHash, error: error});
-                } else if ((["confirmed", "all"].includes(group) && await this.getConfirmedTx(txHash)) ||
-                    (["partial", "all"].includes(group) && await this.getPartialTx(txHash))
-                ) {
-                    // Already confirmed
-                    resolve({txHash, error: undefined});
-                }
+                            deadline = deadline || status?.deadline;
+                            await scheduleExpiry();
+                        } catch (e) {
+                            reject(e);
+                        }
+                    },
+                }));
             })
         );
 
         return Promise.all(promises)
             .finally(() => {
-                subscriptions.forEach((subscription) => subscription.unsubscribe());
+                finished = true;
+                unwatches.forEach((unwatch) => unwatch());
+                timers.forEach((timer) => clearTimeout(timer));
             });
     }
 
+    // Create listener that reconnects automatically (or polls over HTTP in "polling" mode).
+    // You must open before use and close after use.
+    public async createListener() {
+        const {repositoryFactory} = await this.getNetwork();
+        return new ResilientListener(repositoryFactory, {
+            mode: this.config.listener_mode,
+            reconnect_interval_secs: this.config.reconnect_interval_secs,
+            max_reconnects: this.config.max_reconnects,
+            polling_interval_secs: this.config.polling_interval_secs,
+        });
+    }
+
     // Wait till tx(s) has been confirmed.
+    // Arguments:
+    //   - txs: Transaction hash(es) or SignedTransaction(s). SignedTransaction enables expiry detection
+    //     even if the node has dropped the transaction.
+    //   - timeout: Give up waiting after milliseconds (Default: Wait until confirmed or expired)
     // Returns:
     //   - Array of results
     public async waitTxsFor(
         account: Account | PublicAccount,
-        txHashes?: string | string[],
+        txs?: string | SignedTransaction | (string | SignedTransaction)[],
         group: "confirmed" | "partial" | "all" = "confirmed",
+        timeout?: number,
     ) {
-        const {repositoryFactory} = await this.getNetwork();
-        const listener = repositoryFactory.createListener();
+        const listener = await this.createListener();
         await listener.open();
 
         // Wait for all txs in parallel
-        return this.listenTxs(listener, account, (typeof (txHashes) === "string" ? [txHashes] : (txHashes || [])), group)
+        return this.listenTxs(listener, account, (Array.isArray(txs) ? txs : (txs ? [ txs ] : [])), group, timeout)
             .finally(() => {
                 listener.close();
             });
     }
 
 
-    private async _searchMetadata<T>(
-        metadataHttp: SearcherRepository<T, MetadataSearchCriteria>,
+    private static toMetadataSearchCriteria(
         type: MetadataType,
         criteria: {
             target?: Account | PublicAccount | Address,
@@ -558,9 +1310,8 @@ export class SymbolService {
             key?: string | UInt64,
             targetId?: MosaicId | NamespaceId,
         },
-        pageSize: number = 100,
-    ) {
-        const searchCriteria: MetadataSearchCriteria = {
+    ): MetadataSearchCriteria {
+        return {
             targetAddress: criteria.target && (
                 SymbolService.isAddress(criteria.target) ? criteria.target : criteria.target.address
             ),
@@ -572,6 +1323,22 @@ export class SymbolService {
                 : criteria.key?.toHex(),
             targetId: criteria.targetId && criteria.targetId,
             metadataType: type,
+        };
+    }
+
+    private async _searchMetadata<T>(
+        metadataHttp: SearcherRepository<T, MetadataSearchCriteria>,
+        type: MetadataType,
+        criteria: {
+            target?: Account | PublicAccount | Address,
+            source?: Account | PublicAccount | Address,
+            key?: string | UInt64,
+            targetId?: MosaicId | NamespaceId,
+        },
+        pageSize: number = 100,
+    ) {
+        const searchCriteria: MetadataSearchCriteria = {
+            ...SymbolService.toMetadataSearchCriteria(type, criteria),
             pageSize,
         };
 
@@ -616,32 +1383,150 @@ export class SymbolService {
         },
         pageSize: number = 100,
     ) {
-        const binMetadataHttp = new BinMetadataHttp(this.config.node_url, this.config.repo_factory_config?.fetchApi);
+        const binMetadataHttp = this.createBinMetadataRepository();
         return this._searchMetadata(binMetadataHttp, type, criteria, pageSize);
     }
 
+    // Fetch pages one by one with the id of the last entry as offset (cursor),
+    // so that entries are not skipped or duplicated even if new metadata is added while iterating.
+    private async *_iterateMetadata<T extends { id: string }>(
+        metadataHttp: SearcherRepository<T, MetadataSearchCriteria>,
+        type: MetadataType,
+        criteria: {
+            target?: Account | PublicAccount | Address,
+            source?: Account | PublicAccount | Address,
+            key?: string | UInt64,
+            targetId?: MosaicId | NamespaceId,
+        },
+        options?: MetadataSearchOptions,
+    ) {
+        const pageSize = options?.pageSize ?? 100;
+        let offset = options?.offset;
+        let batch: T[];
+        do {
+            batch = await firstValueFrom(metadataHttp.search({
+                ...SymbolService.toMetadataSearchCriteria(type, criteria),
+                pageSize,
+                pageNumber: 1,
+                order: options?.order,
+                offset,
+            })).then((page) => page.data);
+            for (const metadata of batch) {
+                yield metadata;
+            }
+            offset = batch[batch.length - 1]?.id;
+        } while (batch.length === pageSize);
+    }
+
+    // Streaming version of searchMetadata. Stop iterating (break) to terminate early.
+    // Pass id of the last processed entry to options.offset to resume.
+    public async *iterateMetadata(
+        type: MetadataType,
+        criteria: {
+            target?: Account | PublicAccount | Address,
+            source?: Account | PublicAccount | Address,
+            key?: string | UInt64,
+            targetId?: MosaicId | NamespaceId,
+        },
+        options?: MetadataSearchOptions,
+    ) {
+        const { repositoryFactory } = await this.getNetwork();
+        const metadataHttp = repositoryFactory.createMetadataRepository();
+        yield* this._iterateMetadata(metadataHttp, type, criteria, options);
+    }
+
+    // Streaming version of searchBinMetadata.
+    public async *iterateBinMetadata(
+        type: MetadataType,
+        criteria: {
+            target?: Account | PublicAccount | Address,
+            source?: Account | PublicAccount | Address,
+            key?: string | UInt64,
+            targetId?: MosaicId | NamespaceId,
+        },
+        options?: MetadataSearchOptions,
+    ) {
+        const binMetadataHttp = this.createBinMetadataRepository();
+        yield* this._iterateMetadata(binMetadataHttp, type, criteria, options);
+    }
+
+    // Pack inner TXs into batches by count and serialized size.
+    // Limits are taken from networkProperties (maxTransactionsPerAggregate, maxCosignaturesPerAggregate)
+    // and config.max_aggregate_size.
     public async buildAggregateCompleteTxBatches(
         txs: InnerTransaction[],
         feeRatio: number = this.config.fee_ratio,
         batchSize: number = this.config.batch_size,
         requiredCosignatures: number = 0,
     ) {
-        const feeMultiplier = await this.getFeeMultiplier(feeRatio);
-        const txPool = [...txs];
         const batches = new Array<AggregateTransaction>();
+        for await (const batch of this.generateAggregateCompleteTxBatches(txs, feeRatio, batchSize, requiredCosignatures)) {
+            batches.push(batch);
+        }
 
-        do {
-            const innerTxs = txPool.splice(0, batchSize);
-            const aggregateTx = await this.composeAggregateCompleteTx(
-                feeMultiplier,
-                requiredCosignatures || 0,
-                innerTxs,
+        return batches;
+    }
+
+    // Streaming version of buildAggregateCompleteTxBatches.
+    // Batches are built on demand, so that input TXs can also be generated lazily.
+    public async *generateAggregateCompleteTxBatches(
+        txs: Iterable<InnerTransaction> | AsyncIterable<InnerTransaction>,
+        feeRatio: number = this.config.fee_ratio,
+        batchSize: number = this.config.batch_size,
+        requiredCosignatures: number = 0,
+    ): AsyncGenerator<AggregateTransaction> {
+        const {epochAdjustment, networkType, networkProperties} = await this.getNetwork();
+        const maxTxs = SymbolService.parseConfigNumber(networkProperties.plugins.aggregate?.maxTransactionsPerAggregate);
+        const maxCosignatures = SymbolService.parseConfigNumber(networkProperties.plugins.aggregate?.maxCosignaturesPerAggregate);
+        if (maxCosignatures !== undefined && requiredCosignatures > maxCosignatures) {
+            throw new Error(
+                `Required cosignatures (${requiredCosignatures}) exceed maxCosignaturesPerAggregate (${maxCosignatures})`
             );
+        }
+        const maxBatchSize = Math.min(batchSize, maxTxs ?? batchSize);
+
+        // Measure embedded size of each inner TX
+        const deadline = Deadline.create(epochAdjustment, this.config.deadline_hours);
+        const emptySize = AggregateTransaction.createComplete(deadline, [], networkType, []).size;
+        const maxInnerSize = this.config.max_aggregate_size - emptySize -
+            requiredCosignatures * SymbolService.COSIGNATURE_SIZE;
+        const measure = (tx: InnerTransaction, index: number) => {
+            const size = AggregateTransaction.createComplete(deadline, [ tx ], networkType, []).size - emptySize;
+            if (size > maxInnerSize) {
+                throw new Error(
+                    `Inner transaction #${index} (${size} bytes) can never fit in an aggregate ` +
+                    `(max_aggregate_size: ${this.config.max_aggregate_size} bytes, ` +
+                    `available: ${maxInnerSize} bytes with ${requiredCosignatures} cosignatures)`
+                );
+            }
+            return size;
+        };
 
-            batches.push(aggregateTx);
-        } while (txPool.length);
+        const feeMultiplier = await this.getFeeMultiplier(feeRatio);
+        const compose = (innerTxs: InnerTransaction[]) => this.composeAggregateCompleteTx(
+            feeMultiplier,
+            requiredCosignatures || 0,
+            innerTxs,
+        );
 
-        return batches;
+        let innerTxs = new Array<InnerTransaction>();
+        let innerSize = 0;
+        let index = 0;
+        let numBatches = 0;
+        for await (const tx of txs) {
+            const size = measure(tx, index++);
+            if (innerTxs.length && (innerTxs.length >= maxBatchSize || innerSize + size > maxInnerSize)) {
+                yield await compose(innerTxs);
+                numBatches++;
+                innerTxs = [];
+                innerSize = 0;
+            }
+            innerTxs.push(tx);
+            innerSize += size;
+        }
+        if (innerTxs.length || !numBatches) {
+            yield await compose(innerTxs);
+        }
     }
 
     // Return: Array of signed aggregate complete TX and cosignatures (when cosigners are specified)
@@ -653,62 +1538,241 @@ export class SymbolService {
         batchSize: number = this.config.batch_size,
         requiredCosignatures: number = cosignerAccounts?.length || 0,
     ) {
+        const batches = new Array<SignedAggregateTx>();
+        for await (const batch of this.generateSignedAggregateCompleteTxBatches(
+            txs, signerAccount, cosignerAccounts, feeRatio, batchSize, requiredCosignatures,
+        )) {
+            batches.push(batch);
+        }
+
+        return batches;
+    }
+
+    // Streaming version of buildSignedAggregateCompleteTxBatches. Pass the generator to executeBatches
+    // to start announcing while later batches are still being prepared.
+    public async *generateSignedAggregateCompleteTxBatches(
+        txs: Iterable<InnerTransaction> | AsyncIterable<InnerTransaction>,
+        signerAccount: Account,
+        cosignerAccounts?: Account[],
+        feeRatio: number = this.config.fee_ratio,
+        batchSize: number = this.config.batch_size,
+        requiredCosignatures: number = cosignerAccounts?.length || 0,
+    ): AsyncGenerator<SignedAggregateTx> {
         const {networkGenerationHash} = await this.getNetwork();
-        const batches = await this.buildAggregateCompleteTxBatches(txs, feeRatio, batchSize, requiredCosignatures);
 
-        return batches.map((batch) => {
+        for await (const batch of this.generateAggregateCompleteTxBatches(txs, feeRatio, batchSize, requiredCosignatures)) {
             const signedTx = signerAccount.sign(batch, networkGenerationHash);
             const cosignatures = cosignerAccounts?.map(
                 (cosigner) => CosignatureTransaction.signTransactionHash(cosigner, signedTx.hash)
             ) || [];
 
-            return {
+            yield {
                 signedTx,
                 cosignatures,
                 maxFee: batch.maxFee,
             };
-        });
+        }
     }
 
     // Announce aggregate TXs in parallel
+    // Arguments:
+    //   - batches: Array or AsyncIterable (e.g. generateSignedAggregateCompleteTxBatches) of batches.
+    //     AsyncIterable is consumed on demand.
+    //   - options.policy: "continue" announces all batches and reports errors at the end (default),
+    //     "fail-fast" stops announcing remaining batches after the first failure.
+    //   - options.signal: Abort announcing and waiting. Unfinished batches are reported as aborted
+    //     (When streaming, batches not yet pulled from the iterable are not reported).
+    //     executeUnsignedBatches reports batches not yet signed by the index without txHash.
     // Returns:
     //   - Succeeded: undefined
     //   - Failed: errors
     public async executeBatches(
-        batches: SignedAggregateTx[],
+        batches: SignedAggregateTx[] | AsyncIterable<SignedAggregateTx>,
         signerAccount: Account | PublicAccount,
         maxParallel: number = this.config.max_parallels,
+        options?: ExecuteBatchesOptions,
     ) {
-        const txPool = [...batches];
-        const workers = new Array<Promise<{ txHash: string, error?: string }[] | undefined>>();
+        return this.runBatches(
+            SymbolService.toBatchTasks(batches, (batch) => ({ sign: async () => batch, batch })),
+            signerAccount,
+            maxParallel,
+            options,
+        );
+    }
 
-        const {repositoryFactory} = await this.getNetwork();
-        const listener = repositoryFactory.createListener();
+    // Sign each batch just before announcing, and re-sign with fresh deadline when it has expired
+    // or failed with retryable status.
+    // Arguments:
+    //   - aggregateTxs: Array or AsyncIterable of unsigned aggregate complete TXs (Deadline will be overwritten)
+    //   - options.maxRetries: Max number of re-signing per batch (default 3)
+    //   - options.feeRaiseRate: Multiply max fee by this rate on each retry (default 1.0)
+    //   - options.retryableStatuses: Error statuses to retry in addition to expiry (default none)
+    // Returns:
+    //   - Succeeded: undefined
+    //   - Failed: errors
+    public async executeUnsignedBatches(
+        aggregateTxs: AggregateTransaction[] | AsyncIterable<AggregateTransaction>,
+        signerAccount: Account,
+        cosignerAccounts: Account[] = [],
+        maxParallel: number = this.config.max_parallels,
+        options?: ExecuteUnsignedBatchesOptions,
+    ) {
+        const {epochAdjustment, networkGenerationHash} = await this.getNetwork();
+        const feeRaiseRate = options?.feeRaiseRate ?? 1.0;
+
+        const sign = (aggregateTx: AggregateTransaction, attempt: number) => {
+            const maxFee = UInt64.fromUint(Math.ceil(aggregateTx.maxFee.compact() * Math.pow(feeRaiseRate, attempt)));
+            const signedTx = signerAccount.sign(
+                AggregateTransaction.createComplete(
+                    Deadline.create(epochAdjustment, this.config.deadline_hours),
+                    aggregateTx.innerTransactions,
+                    aggregateTx.networkType,
+                    [],
+                    maxFee,
+                ),
+                networkGenerationHash,
+            );
+            const cosignatures = cosignerAccounts.map(
+                (cosigner) => CosignatureTransaction.signTransactionHash(cosigner, signedTx.hash)
+            );
+
+            return { signedTx, cosignatures, maxFee };
+        };
+
+        return this.runBatches(
+            SymbolService.toBatchTasks(aggregateTxs, (aggregateTx) => ({
+                sign: async (attempt) => sign(aggregateTx, attempt),
+            })),
+            signerAccount,
+            maxParallel,
+            options,
+            options?.maxRetries ?? 3,
+            options?.retryableStatuses,
+        );
+    }
+
+    private static toBatchTasks<T>(
+        items: T[] | AsyncIterable<T>,
+        toTask: (item: T) => Omit<BatchTask, "index">,
+    ): BatchTask[] | AsyncIterator<BatchTask> {
+        if (Array.isArray(items)) {
+            return items.map((item, index) => ({ index, ...toTask(item) }));
+        }
+        return (async function* () {
+            let index = 0;
+            for await (const item of items) {
+                yield { index: index++, ...toTask(item) };
+            }
+        })();
+    }
+
+    private async runBatches(
+        tasks: BatchTask[] | AsyncIterator<BatchTask>,
+        signerAccount: Account | PublicAccount,
+        maxParallel: number,
+        options?: ExecuteBatchesOptions,
+        maxRetries: number = 0,
+        retryableStatuses: string[] = [],
+    ) {
+        const policy = options?.policy || "continue";
+        const signal = options?.signal;
+        const runId = options?.runId ?? uuidv4();
+        const notify = (progress: Omit<BatchProgress, "runId">) => this._batchObserver.next({ runId, ...progress });
+        // Total is unknown when streaming
+        const total = Array.isArray(tasks) ? tasks.length : undefined;
+        const iterator = Array.isArray(tasks) ? undefined : tasks;
+        // Tasks that have been pulled but not been announced
+        const txPool = Array.isArray(tasks) ? [...tasks] : [];
+        const workers = new Array<Promise<WaitTxResult[]>>();
+        let exhausted = !iterator;
+        let failed = false;
+
+        const listener = await this.createListener();
         await listener.open();
 
+        const nextTask = async () => {
+            const task = txPool.shift();
+            if (task || exhausted) {
+                return task;
+            }
+            // Async generator queues concurrent calls of next()
+            const next = await iterator?.next();
+            if (!next || next.done) {
+                exhausted = true;
+                return undefined;
+            }
+            return next.value;
+        };
+
+        // Tasks that have never been announced are not signed, and reported by the index.
+        const abortAll = async (error: string) => {
+            if (!exhausted) {
+                exhausted = true;
+                await iterator?.return?.();
+            }
+            const results = new Array<WaitTxResult>();
+            for (const { index, batch } of txPool.splice(0)) {
+                const result: WaitTxResult = { txHash: batch?.signedTx.hash, error, aborted: true, index };
+                notify({ type: "failed", batch, index, total, result });
+                results.push(result);
+            }
+            return results;
+        };
+
+        const isRetryable = (result: WaitTxResult) => !result.aborted &&
+            (result.expired || (!!result.code && retryableStatuses.includes(result.code)));
+
         for (let i = 0; i < maxParallel; i++) {
-            workers.push(new Promise(async (resolve) => {
-                const nextBatch = () => txPool.splice(0, 1).shift();
-                for (let batch = nextBatch(); batch; batch = nextBatch()) {
-                    await this.announceTxWithCosignatures(batch.signedTx, batch.cosignatures);
-                    const errors = (await this.listenTxs(listener, signerAccount, [batch.signedTx.hash], "confirmed"))
-                        .filter((result) => result.error);
-                    if (errors.length) {
-                        resolve(errors);
+            workers.push(new Promise(async (resolve, reject) => {
+                const errors = new Array<WaitTxResult>();
+                try {
+                    for (let task = await nextTask(); task; task = await nextTask()) {
+                        const { index, sign } = task;
+                        if (signal?.aborted || failed) {
+                            txPool.unshift(task);
+                            break;
+                        }
+                        for (let attempt = 0; ; attempt++) {
+                            const batch = await sign(attempt);
+                            await this.announceTxWithCosignatures(batch.signedTx, batch.cosignatures);
+                            notify({ type: "announced", batch, index, total, attempt });
+
+                            const [ result ] = await this.listenTxs(
+                                listener, signerAccount, [batch.signedTx], "confirmed", undefined, signal,
+                            );
+                            if (!result.error) {
+                                notify({ type: "confirmed", batch, index, total, attempt, result });
+                            } else if (attempt < maxRetries && isRetryable(result) && !signal?.aborted) {
+                                Logger.debug(`Retrying batch ${index}: ${result.error}`);
+                                notify({ type: "retrying", batch, index, total, attempt, result });
+                                continue;
+                            } else {
+                                errors.push(result);
+                                notify({ type: "failed", batch, index, total, attempt, result });
+                            }
+                            break;
+                        }
+                        if (errors.length && policy === "fail-fast") {
+                            failed = true;
+                        }
                     }
+                    resolve(errors);
+                } catch (e) {
+                    reject(e);
                 }
-                resolve(undefined);
             }));
         }
 
         return Promise.all(workers)
-            .then((workerErrors) => workerErrors
-                .filter((error) => error)
-                .reduce(
-                    (acc, curr) => [...(acc || []), ...(curr || [])],
-                    undefined,
-                )
-            )
+            .then(async (workerErrors) => {
+                const errors = [
+                    ..._.flatten(workerErrors),
+                    ...(failed
+                        ? await abortAll("Aborted due to failure of other batch")
+                        : signal?.aborted ? await abortAll("Aborted") : []),
+                ];
+                return errors.length ? errors : undefined;
+            })
             .finally(() => {
                 listener.close();
             });
@@ -725,10 +1789,223 @@ export class SymbolService {
     public async getBinMetadataByHash(
         compositeHash: string,
     ) {
-        const binMetadataHttp = new BinMetadataHttp(this.config.node_url, this.config.repo_factory_config?.fetchApi);
+        const binMetadataHttp = this.createBinMetadataRepository();
         return firstValueFrom(binMetadataHttp.getMetadata(compositeHash));
     }
 
+    // Verify that the metadata is in the chain state with merkle proof, anchored in the latest block.
+    // It may fail when the metadata is changed while fetching.
+    public async verifyMetadataProof(
+        compositeHash: string,
+    ): Promise<MerkleProofResult> {
+        const { repositoryFactory } = await this.getNetwork();
+        const binMetadataHttp = this.createBinMetadataRepository();
+        const metadata = await firstValueFrom(binMetadataHttp.getMetadata(compositeHash));
+        const merkle = await firstValueFrom(binMetadataHttp.getMetadataMerkle(compositeHash));
+        const { height } = await firstValueFrom(repositoryFactory.createChainRepository().getChainInfo());
+        const block = await firstValueFrom(repositoryFactory.createBlockRepository().getBlockByHeight(height));
+
+        return MerkleProof.verifyMetadata(metadata.metadataEntry, merkle, block);
+    }
+
+    public async resolveAddress(address: UnresolvedAddress) {
+        if (SymbolService.isAddress(address)) {
+            return address;
+        }
+        const { repositoryFactory } = await this.getNetwork();
+        const linkedAddress = await firstValueFrom(
+            repositoryFactory.createNamespaceRepository().getLinkedAddress(address as NamespaceId)
+        );
+        if (!linkedAddress) {
+            throw new Error(`Namespace ${address.toHex()} is not linked to address`);
+        }
+        return linkedAddress;
+    }
+
+    public async resolveMosaicId(mosaicId: UnresolvedMosaicId) {
+        if (SymbolService.isMosaicId(mosaicId)) {
+            return mosaicId;
+        }
+        const { repositoryFactory } = await this.getNetwork();
+        const linkedMosaicId = await firstValueFrom(
+            repositoryFactory.createNamespaceRepository().getLinkedMosaicId(mosaicId as NamespaceId)
+        );
+        if (!linkedMosaicId) {
+            throw new Error(`Namespace ${mosaicId.toHex()} is not linked to mosaic`);
+        }
+        return linkedMosaicId;
+    }
+
+    // Returns:
+    //   - Namespace info, or undefined if not found.
+    public async getNamespaceInfo(namespace: string | NamespaceId) {
+        const { repositoryFactory } = await this.getNetwork();
+        const namespaceId = typeof (namespace) === "string" ? SymbolService.createNamespaceId(namespace) : namespace;
+        return firstValueFrom(repositoryFactory.createNamespaceRepository().getNamespace(namespaceId))
+            .catch((e) => {
+                if (SymbolService.isNotFoundError(e)) {
+                    return undefined;
+                }
+                throw e;
+            });
+    }
+
+    // Returns:
+    //   - Linked address, or undefined if the namespace is not found, expired or not linked to address.
+    public async getLinkedAddress(namespace: string | NamespaceId) {
+        const namespaceInfo = await this.getNamespaceInfo(namespace);
+        return namespaceInfo?.active ? namespaceInfo.alias.address : undefined;
+    }
+
+    // Returns:
+    //   - Linked mosaic ID, or undefined if the namespace is not found, expired or not linked to mosaic.
+    public async getLinkedMosaicId(namespace: string | NamespaceId) {
+        const namespaceInfo = await this.getNamespaceInfo(namespace);
+        return namespaceInfo?.active ? namespaceInfo.alias.mosaicId : undefined;
+    }
+
+    // Returns:
+    //   - Full names (e.g. "foo.bar") of the namespaces linked to the address.
+    public async getAccountNames(address: Address) {
+        const { repositoryFactory } = await this.getNetwork();
+        const [ accountNames ] = await firstValueFrom(
+            repositoryFactory.createNamespaceRepository().getAccountsNames([ address ])
+        );
+        return accountNames?.names.map((name) => name.name) ?? [];
+    }
+
+    // Returns:
+    //   - Full names (e.g. "symbol.xym") of the namespaces linked to the mosaic.
+    public async getMosaicNames(mosaicId: MosaicId) {
+        const { repositoryFactory } = await this.getNetwork();
+        const [ mosaicNames ] = await firstValueFrom(
+            repositoryFactory.createNamespaceRepository().getMosaicsNames([ mosaicId ])
+        );
+        return mosaicNames?.names.map((name) => name.name) ?? [];
+    }
+
+    // Reconstruct all historical values of the metadata by replaying confirmed transactions in block order.
+    // Aliases in transactions are resolved with current links.
+    // Returns:
+    //   - Values after each transaction, oldest first. Empty array if the metadata has never been set.
+    public async getMetadataHistory(
+        type: MetadataType,
+        source: Account | PublicAccount | Address,
+        target: Account | PublicAccount | Address,
+        targetId: undefined | MosaicId | NamespaceId,
+        key: string | UInt64,
+        pageSize: number = 100,
+    ): Promise<MetadataHistoryEntry[]> {
+        const sourceAddress = SymbolService.isAddress(source) ? source : source.address;
+        const targetAddress = SymbolService.isAddress(target) ? target : target.address;
+        const compositeHash = SymbolService.calculateMetadataHash(
+            type,
+            sourceAddress,
+            targetAddress,
+            targetId,
+            typeof (key) === "string" ? SymbolService.generateKey(key) : key,
+        );
+        const { repositoryFactory } = await this.getNetwork();
+        const txHttp = repositoryFactory.createTransactionRepository();
+        const criteria: TransactionSearchCriteria = {
+            group: TransactionGroup.Confirmed,
+            address: targetAddress,
+            embedded: true,
+            type: [ {
+                [MetadataType.Account]: TransactionType.ACCOUNT_METADATA,
+                [MetadataType.Mosaic]: TransactionType.MOSAIC_METADATA,
+                [MetadataType.Namespace]: TransactionType.NAMESPACE_METADATA,
+            }[type] ],
+            order: Order.Asc,
+            pageSize,
+        };
+
+        const history = new Array<MetadataHistoryEntry>();
+        let value = new Uint8Array();
+        let batch;
+        let pageNumber = 1;
+        do {
+            batch = await firstValueFrom(txHttp.search({ ...criteria, pageNumber: pageNumber++ }))
+                .then((page) => page.data);
+            for (const tx of batch) {
+                const info = tx.transactionInfo;
+                if (!SymbolService.isMetadataTx(tx) || !tx.signer || !(info instanceof AggregateTransactionInfo)) {
+                    continue;
+                }
+                const txTargetId = tx instanceof MosaicMetadataTransaction
+                    ? await this.resolveMosaicId(tx.targetMosaicId)
+                    : tx instanceof NamespaceMetadataTransaction ? tx.targetNamespaceId : undefined;
+                const txCompositeHash = SymbolService.calculateMetadataHash(
+                    type,
+                    tx.signer.address,
+                    await this.resolveAddress(tx.targetAddress),
+                    txTargetId,
+                    tx.scopedMetadataKey,
+                );
+                if (txCompositeHash !== compositeHash) {
+                    continue;
+                }
+
+                const valueSizeDelta = SymbolService.toSignedSizeDelta(tx.valueSizeDelta);
+                value = SymbolService.applyMetadataDelta(value, tx.value, valueSizeDelta);
+                history.push({
+                    value,
+                    valueDelta: tx.value,
+                    valueSizeDelta,
+                    height: info.height,
+                    txHash: info.aggregateHash,
+                    signer: tx.signer,
+                });
+            }
+        } while (batch.length === pageSize);
+
+        return history;
+    }
+
+    public async getBlockGenerationTargetMsecs() {
+        const { networkProperties } = await this.getNetwork();
+        return SymbolService.parseConfigDuration(networkProperties.chain.blockGenerationTargetTime) || 30000;
+    }
+
+    // Convert duration (e.g. "30d" or moment.duration(30, "days")) into number of blocks, rounded up.
+    public async durationToBlocks(duration: string | moment.Duration) {
+        const msecs = SymbolService.toDurationMsecs(duration);
+        return UInt64.fromUint(Math.ceil(msecs / await this.getBlockGenerationTargetMsecs()));
+    }
+
+    public async blocksToDuration(blocks: UInt64 | number) {
+        return moment.duration(Number(blocks.toString()) * await this.getBlockGenerationTargetMsecs());
+    }
+
+    // Returns:
+    //   - Timestamp (milliseconds since Unix epoch) of the block.
+    //     Heights beyond the chain height are estimated from the latest block with the block generation target time.
+    public async getHeightTimestamp(height: UInt64) {
+        const { repositoryFactory, epochAdjustment } = await this.getNetwork();
+        const { height: chainHeight } = await firstValueFrom(repositoryFactory.createChainRepository().getChainInfo());
+        const isFuture = height.compare(chainHeight) > 0;
+        const block = await firstValueFrom(
+            repositoryFactory.createBlockRepository().getBlockByHeight(isFuture ? chainHeight : height)
+        );
+        // Block timestamps are milliseconds since the nemesis block
+        const timestamp = epochAdjustment * 1000 + Number(block.timestamp.toString());
+        if (!isFuture) {
+            return timestamp;
+        }
+        const remainingBlocks = Number(height.toString()) - Number(chainHeight.toString());
+        return timestamp + remainingBlocks * await this.getBlockGenerationTargetMsecs();
+    }
+
+    // Returns:
+    //   - Timestamp (milliseconds since Unix epoch) of the latest block.
+    public async getChainTimestamp() {
+        const { repositoryFactory } = await this.getNetwork();
+        const { height } = await firstValueFrom(repositoryFactory.createChainRepository().getChainInfo());
+        return this.getHeightTimestamp(height);
+    }
+
+    // Arguments:
+    //   - durationBlocks: Use durationToBlocks() to convert from duration (e.g. "1h").
     public async createSecretLockTx(
         senderPubAccount: PublicAccount,
         recipientAddress: Address,
@@ -780,17 +2057,61 @@ export class SymbolService {
             );
     }
 
+    // Returns:
+    //   - Balance in decimal string (e.g. "1.5")
+    public async getAccountBalanceAmount(
+        accountAddress: Address,
+        mosaicId: MosaicId,
+    ) {
+        return SymbolService.fromAtomicUnits(
+            await this.getAccountBalance(accountAddress, mosaicId),
+            await this.getMosaicDivisibility(mosaicId),
+        );
+    }
+
+    public async getMosaicDivisibility(mosaicId: MosaicId | NamespaceId) {
+        const {repositoryFactory, networkCurrencyMosaicId} = await this.getNetwork();
+        const actualMosaicId = await this.resolveMosaicId(mosaicId);
+        if (actualMosaicId.equals(networkCurrencyMosaicId)) {
+            return (await firstValueFrom(repositoryFactory.getCurrencies())).currency.divisibility;
+        }
+        return (await firstValueFrom(repositoryFactory.createMosaicRepository().getMosaic(actualMosaicId))).divisibility;
+    }
+
+    // Create Mosaic from decimal amount (e.g. "1.5") according to divisibility of the mosaic on chain.
+    public async createMosaic(mosaicId: MosaicId | NamespaceId, amount: string | number) {
+        return new Mosaic(mosaicId, SymbolService.toAtomicUnits(amount, await this.getMosaicDivisibility(mosaicId)));
+    }
+
+    // Format the mosaic like "1.5 symbol.xym". Mosaic ID (hex) is used when no alias is linked.
+    public async formatMosaic(mosaic: Mosaic) {
+        const {repositoryFactory, networkCurrencyMosaicId} = await this.getNetwork();
+        const mosaicId = await this.resolveMosaicId(mosaic.id);
+        const amount = SymbolService.fromAtomicUnits(mosaic.amount, await this.getMosaicDivisibility(mosaicId));
+        let name: string | undefined;
+        if (mosaicId.equals(networkCurrencyMosaicId)) {
+            name = (await firstValueFrom(repositoryFactory.getCurrencies())).currency.namespaceId?.fullName;
+        } else {
+            name = (await this.getMosaicNames(mosaicId))[0];
+        }
+        return `${amount} ${name ?? mosaicId.toHex()}`;
+    }
+
+    // Arguments:
+    //   - assets: UInt64 is atomic units and string is decimal amount (e.g. "1.5") of the network currency.
     public async createTransferTx(
         senderPubAccount: PublicAccount,
         recipientAddress: Address,
-        assets: Mosaic | Mosaic[] | UInt64,
+        assets: Mosaic | Mosaic[] | UInt64 | string,
         message: string | Message,
     ) {
         const {networkType, epochAdjustment, networkCurrencyMosaicId} = await this.getNetwork();
         return TransferTransaction.create(
             Deadline.create(epochAdjustment, this.config.deadline_hours),
             recipientAddress,
-            SymbolService.isUInt64(assets)
+            typeof (assets) === "string"
+                ? [ await this.createMosaic(networkCurrencyMosaicId, assets) ]
+                : SymbolService.isUInt64(assets)
                 ? [ new Mosaic(networkCurrencyMosaicId, assets ) ]
                 : Array.isArray(assets) ? assets : [ assets ],
             typeof (message) === "string" ? PlainMessage.create(message) : message,
@@ -0,0 +1,84 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Mosaic, MosaicId, UInt64} from "symbol-sdk";
+import Long from "long";
+
+
+describe("Amount", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let senderAccount: Account;
+    let recipientAccount: Account;
+    let mosaicId: MosaicId;
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        senderAccount = await SymbolTest.generateFundedAccount();
+        recipientAccount = await SymbolTest.generateFundedAccount(0);
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Atomic units", async () => {
+        expect(SymbolService.toAtomicUnits("1.5", 6).toString()).toBe("1500000");
+        expect(SymbolService.toAtomicUnits("0.000001", 6).toString()).toBe("1");
+        expect(SymbolService.toAtomicUnits("1.2500", 2).toString()).toBe("125");
+        expect(SymbolService.toAtomicUnits(42, 0).toString()).toBe("42");
+        expect(SymbolService.toAtomicUnits("18446744073709551615", 0).toString()).toBe("18446744073709551615");
+        // Large supply that float can't represent
+        expect(SymbolService.toAtomicUnits("8999999999.123456", 6).toString()).toBe("8999999999123456");
+
+        expect(() => SymbolService.toAtomicUnits("1.0000001", 6)).toThrow("Amount 1.0000001 is more precise than divisibility 6");
+        expect(() => SymbolService.toAtomicUnits("18446744073709551616", 0)).toThrow("Amount 18446744073709551616 is out of range");
+        expect(() => SymbolService.toAtomicUnits("-1", 0)).toThrow("Invalid amount: -1");
+        expect(() => SymbolService.toAtomicUnits(1e21, 0)).toThrow("Invalid amount: 1e+21");
+        expect(() => SymbolService.toAtomicUnits("1,000", 0)).toThrow("Invalid amount: 1,000");
+
+        expect(SymbolService.fromAtomicUnits(UInt64.fromUint(1500000), 6)).toBe("1.5");
+        expect(SymbolService.fromAtomicUnits("1", 6)).toBe("0.000001");
+        expect(SymbolService.fromAtomicUnits(Long.fromString("18446744073709551615", true), 4)).toBe("1844674407370955.1615");
+        expect(SymbolService.fromAtomicUnits("100", 0)).toBe("100");
+        expect(SymbolService.fromAtomicUnits(UInt64.fromUint(0), 3)).toBe("0");
+    });
+
+    it("Define mosaic with decimal supply", async () => {
+        const mosaicDefinition = await symbolService.createMosaicDefinitionTx(
+            senderAccount.publicAccount, UInt64.fromUint(0), 3, "1000.125",
+        );
+        mosaicId = mosaicDefinition.mosaicId;
+        const result = await SymbolTest.doAggregateTx(mosaicDefinition.txs, senderAccount, []);
+        expect(result?.error).toBeUndefined();
+
+        expect(await symbolService.getMosaicDivisibility(mosaicId)).toBe(3);
+        expect(await symbolService.getMosaicDivisibility(simulator.currencyMosaicId)).toBe(6);
+        expect(await symbolService.getAccountBalanceAmount(senderAccount.address, mosaicId)).toBe("1000.125");
+    });
+
+    it("Transfer decimal amounts", async () => {
+        const tx = await symbolService.createTransferTx(
+            senderAccount.publicAccount,
+            recipientAccount.address,
+            [ await symbolService.createMosaic(mosaicId, "0.5") ],
+            "",
+        );
+        const currencyTx = await symbolService.createTransferTx(senderAccount.publicAccount, recipientAccount.address, "1.25", "");
+        const result = await SymbolTest.doAggregateTx([ tx, currencyTx ], senderAccount, []);
+        expect(result?.error).toBeUndefined();
+
+        expect(await symbolService.getAccountBalanceAmount(recipientAccount.address, mosaicId)).toBe("0.5");
+        expect(await symbolService.getAccountBalanceAmount(recipientAccount.address, simulator.currencyMosaicId)).toBe("1.25");
+        await expect(symbolService.createMosaic(mosaicId, "0.0001")).rejects.toThrow("more precise than divisibility 3");
+    });
+
+    it("Format mosaic", async () => {
+        expect(await symbolService.formatMosaic(new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(1250000))))
+            .toBe("1.25 symbol.xym");
+        expect(await symbolService.formatMosaic(new Mosaic(mosaicId, UInt64.fromUint(500))))
+            .toBe(`0.5 ${mosaicId.toHex()}`);
+    });
+
+});
@@ -0,0 +1,322 @@
+import {SymbolTest} from "./utils";
+import {BatchProgress, SignedAggregateTx, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, AggregateTransaction, InnerTransaction, MetadataType, Mosaic, UInt64} from "symbol-sdk";
+import _ from "lodash";
+import {Subscription} from "rxjs";
+
+
+describe("Execute batches", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let signerAccount: Account;
+    let targetAccount: Account;
+    let progress: BatchProgress[];
+    let subscription: Subscription;
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        signerAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+        subscription = symbolService.batchObserver.subscribe((value) => progress.push(value));
+    });
+
+    beforeEach(() => {
+        progress = [];
+        simulator.config.auto_mining = true;
+    });
+
+    afterAll(() => {
+        subscription.unsubscribe();
+        simulator.stop();
+    });
+
+    // Build one batch per amount
+    const buildBatches = async (amounts: number[]) => {
+        const batches = new Array<SignedAggregateTx>();
+        for (const amount of amounts) {
+            const transferTx = await symbolService.createTransferTx(
+                signerAccount.publicAccount,
+                targetAccount.address,
+                new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(amount)),
+                `amount${amount}`,
+            );
+            batches.push(...await symbolService.buildSignedAggregateCompleteTxBatches(
+                [ transferTx ], signerAccount, [],
+            ));
+        }
+        return batches;
+    };
+
+    it("Progress", async () => {
+        const batches = await buildBatches([ 1, 2, 3 ]);
+        const errors = await symbolService.executeBatches(batches, signerAccount);
+
+        expect(errors).toBeUndefined();
+        expect(progress.filter((value) => value.type === "announced")).toHaveLength(3);
+        expect(progress.filter((value) => value.type === "confirmed").map((value) => value.index).sort())
+            .toStrictEqual([ 0, 1, 2 ]);
+        expect(progress.every((value) => value.total === 3)).toBeTruthy();
+    });
+
+    it("Distinguish concurrent runs", async () => {
+        const batches1 = await buildBatches([ 20, 21 ]);
+        const batches2 = await buildBatches([ 22, 23, 24 ]);
+        const errors = await Promise.all([
+            symbolService.executeBatches(batches1, signerAccount, 2, { runId: "run1" }),
+            symbolService.executeBatches(batches2, signerAccount, 2),
+        ]);
+        const toHashes = (values: BatchProgress[]) => values
+            .filter((value) => value.type === "confirmed")
+            .map((value) => value.batch?.signedTx.hash)
+            .sort();
+        const run1 = progress.filter((value) => value.runId === "run1");
+        const run2 = progress.filter((value) => value.runId !== "run1");
+
+        expect(errors).toStrictEqual([ undefined, undefined ]);
+        expect(toHashes(run1)).toStrictEqual(batches1.map((batch) => batch.signedTx.hash).sort());
+        expect(run1.every((value) => value.total === 2)).toBeTruthy();
+        // Generated run ID
+        expect(new Set(run2.map((value) => value.runId)).size).toBe(1);
+        expect(toHashes(run2)).toStrictEqual(batches2.map((batch) => batch.signedTx.hash).sort());
+        expect(run2.every((value) => value.total === 3)).toBeTruthy();
+    });
+
+    it("Continue policy", async () => {
+        const batches = await buildBatches([ 4, 1000000000000, 5, 1000000000001, 6 ]);
+        const errors = await symbolService.executeBatches(batches, signerAccount, 1);
+
+        // All errors are reported
+        expect(errors?.map((error) => error.txHash)).toStrictEqual([ batches[1].signedTx.hash, batches[3].signedTx.hash ]);
+        expect(progress.filter((value) => value.type === "confirmed")).toHaveLength(3);
+        expect(simulator.getConfirmedTx(batches[4].signedTx.hash)).toBeDefined();
+    });
+
+    it("Fail-fast policy", async () => {
+        const batches = await buildBatches([ 7, 1000000000000, 8, 9 ]);
+        const errors = await symbolService.executeBatches(batches, signerAccount, 1, { policy: "fail-fast" });
+
+        expect(errors).toHaveLength(3);
+        expect(errors?.[0].error).toBe("Received error status: Failure_Core_Insufficient_Balance");
+        expect(errors?.slice(1).every((error) => error.aborted)).toBeTruthy();
+        expect(simulator.getConfirmedTx(batches[0].signedTx.hash)).toBeDefined();
+        expect(simulator.getPendingTx(batches[2].signedTx.hash)).toBeUndefined();
+        expect(simulator.getConfirmedTx(batches[2].signedTx.hash)).toBeUndefined();
+    });
+
+    it("Abort", async () => {
+        simulator.config.auto_mining = false;
+        const batches = await buildBatches([ 10, 11, 12 ]);
+        const controller = new AbortController();
+        const announced = symbolService.batchObserver.subscribe((value) => {
+            if (value.type === "announced") {
+                controller.abort();
+            }
+        });
+        const errors = await symbolService.executeBatches(batches, signerAccount, 1, { signal: controller.signal })
+            .finally(() => announced.unsubscribe());
+
+        expect(errors).toHaveLength(3);
+        expect(errors?.every((error) => error.aborted)).toBeTruthy();
+        expect(progress.filter((value) => value.type === "announced")).toHaveLength(1);
+        expect(simulator.numPendingTxs).toBe(1);
+        simulator.mineBlock();
+    });
+
+    it("Abort unsigned batches", async () => {
+        const aggregateTxs = new Array<AggregateTransaction>();
+        for (const amount of [ 1000000000000, 14, 15 ]) {
+            aggregateTxs.push(...await symbolService.buildAggregateCompleteTxBatches([
+                await symbolService.createTransferTx(
+                    signerAccount.publicAccount,
+                    targetAccount.address,
+                    new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(amount)),
+                    "unsigned",
+                ),
+            ]));
+        }
+        const errors = await symbolService.executeUnsignedBatches(
+            aggregateTxs, signerAccount, [], 1, { policy: "fail-fast" },
+        );
+
+        expect(errors).toHaveLength(3);
+        // Never signed
+        expect(errors?.slice(1).map((error) => [ error.index, error.txHash, error.aborted ]))
+            .toStrictEqual([ [ 1, undefined, true ], [ 2, undefined, true ] ]);
+        expect(progress.filter((value) => value.type === "announced")).toHaveLength(1);
+        expect(progress.filter((value) => value.result?.aborted).map((value) => [ value.index, value.batch ]))
+            .toStrictEqual([ [ 1, undefined ], [ 2, undefined ] ]);
+    });
+
+    it("Re-sign expired batch", async () => {
+        const transferTx = await symbolService.createTransferTx(
+            signerAccount.publicAccount,
+            targetAccount.address,
+            new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(13)),
+            "resign",
+        );
+        const aggregateTxs = await symbolService.buildAggregateCompleteTxBatches([ transferTx ]);
+        const shifter = symbolService.batchObserver.subscribe((value) => {
+            if (value.type === "announced" && value.attempt === 0) {
+                // Expires before the block
+                simulator.advanceTime(6 * 60 * 60 * 1000);
+            } else if (value.type === "retrying") {
+                simulator.advanceTime(-6 * 60 * 60 * 1000);
+            }
+        });
+        const errors = await symbolService.executeUnsignedBatches(aggregateTxs, signerAccount, [], 1, { feeRaiseRate: 1.5 })
+            .finally(() => shifter.unsubscribe());
+        const announced = progress.filter((value) => value.type === "announced");
+
+        expect(errors).toBeUndefined();
+        expect(progress.map((value) => value.type)).toStrictEqual([ "announced", "retrying", "announced", "confirmed" ]);
+        expect(progress[1].result?.expired).toBeTruthy();
+        expect(announced[1].batch?.signedTx.hash).not.toBe(announced[0].batch?.signedTx.hash);
+        expect(announced[1].batch?.maxFee.compact()).toBe(Math.ceil(aggregateTxs[0].maxFee.compact() * 1.5));
+        expect(simulator.getConfirmedTx(announced[1].batch?.signedTx.hash ?? "")).toBeDefined();
+    });
+
+    it("Retry by status", async () => {
+        const poorAccount = await SymbolTest.generateFundedAccount(1000000);
+        const transferTx = await symbolService.createTransferTx(
+            poorAccount.publicAccount,
+            targetAccount.address,
+            new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(2000000)),
+            "retry",
+        );
+        const aggregateTxs = await symbolService.buildAggregateCompleteTxBatches([ transferTx ]);
+        const funder = symbolService.batchObserver.subscribe((value) => {
+            if (value.type === "retrying") {
+                simulator.fund(poorAccount.address, 2000000);
+            }
+        });
+        const errors = await symbolService.executeUnsignedBatches(aggregateTxs, poorAccount, [], 1, {
+            retryableStatuses: [ "Failure_Core_Insufficient_Balance" ],
+        }).finally(() => funder.unsubscribe());
+
+        expect(errors).toBeUndefined();
+        expect(progress.filter((value) => value.type === "retrying")).toHaveLength(1);
+
+        // Not retryable without the option
+        const errors2 = await symbolService.executeUnsignedBatches(aggregateTxs, poorAccount, [], 1);
+
+        expect(errors2?.[0].code).toBe("Failure_Core_Insufficient_Balance");
+    });
+
+    it("Size-aware batching", async () => {
+        const txs = new Array<InnerTransaction>();
+        for (let i = 0; i < 30; i++) {
+            txs.push(await symbolService.createMetadataTx(
+                MetadataType.Account,
+                signerAccount.publicAccount,
+                signerAccount.publicAccount,
+                undefined,
+                `size${i}`,
+                new Uint8Array(1000).fill(i),
+            ));
+        }
+        symbolService.config.max_aggregate_size = 10000;
+        const batches = await symbolService.buildAggregateCompleteTxBatches(txs, 0, 100, 1)
+            .finally(() => symbolService.config.max_aggregate_size = 1048576);
+
+        expect(batches.length).toBeGreaterThan(3);
+        expect(_.sum(batches.map((batch) => batch.innerTransactions.length))).toBe(30);
+        expect(batches.every((batch) => batch.size + 104 <= 10000)).toBeTruthy();
+    });
+
+    it("Batch size limited by network", async () => {
+        const txs = new Array<InnerTransaction>();
+        for (let i = 0; i < 150; i++) {
+            txs.push(await symbolService.createTransferTx(
+                signerAccount.publicAccount,
+                targetAccount.address,
+                new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(1)),
+                `batch${i}`,
+            ));
+        }
+        const batches = await symbolService.buildAggregateCompleteTxBatches(txs, 0, 1000);
+
+        // maxTransactionsPerAggregate is 100
+        expect(batches.map((batch) => batch.innerTransactions.length)).toStrictEqual([ 100, 50 ]);
+        await expect(symbolService.buildAggregateCompleteTxBatches(txs, 0, 100, 26))
+            .rejects.toThrow("Required cosignatures (26) exceed maxCosignaturesPerAggregate (25)");
+    });
+
+    it("Inner transaction never fits", async () => {
+        const tx = await symbolService.createMetadataTx(
+            MetadataType.Account,
+            signerAccount.publicAccount,
+            signerAccount.publicAccount,
+            undefined,
+            "huge",
+            new Uint8Array(1024),
+        );
+        symbolService.config.max_aggregate_size = 1000;
+
+        await expect(symbolService.buildAggregateCompleteTxBatches([ tx ]))
+            .rejects.toThrow(/^Inner transaction #0 \(\d+ bytes\) can never fit in an aggregate/);
+        symbolService.config.max_aggregate_size = 1048576;
+    });
+
+    it("Streaming batches", async () => {
+        let numGenerated = 0;
+        let inputDone = false;
+        const generateTxs = async function* () {
+            for (let i = 0; i < 250; i++) {
+                numGenerated++;
+                yield await symbolService.createTransferTx(
+                    signerAccount.publicAccount,
+                    targetAccount.address,
+                    new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(1)),
+                    `stream${i}`,
+                );
+            }
+            inputDone = true;
+        };
+        let generatedAtFirstAnnounce = 0;
+        const watcher = symbolService.batchObserver.subscribe((value) => {
+            if (value.type === "announced" && !generatedAtFirstAnnounce) {
+                generatedAtFirstAnnounce = inputDone ? -1 : numGenerated;
+            }
+        });
+        const errors = await symbolService.executeBatches(
+            symbolService.generateSignedAggregateCompleteTxBatches(generateTxs(), signerAccount),
+            signerAccount,
+            1,
+        ).finally(() => watcher.unsubscribe());
+
+        expect(errors).toBeUndefined();
+        // Announcing started before all transactions were generated
+        expect(generatedAtFirstAnnounce).toBeGreaterThan(0);
+        expect(generatedAtFirstAnnounce).toBeLessThan(250);
+        expect(progress.filter((value) => value.type === "confirmed").map((value) => value.index))
+            .toStrictEqual([ 0, 1, 2 ]);
+        expect(progress.every((value) => value.total === undefined)).toBeTruthy();
+    }, 600000);
+
+    it("Streaming fail-fast", async () => {
+        const amounts = [ 1, 1000000000000, 2, 3 ];
+        const generateTxs = async function* () {
+            for (const amount of amounts) {
+                yield await symbolService.createTransferTx(
+                    signerAccount.publicAccount,
+                    targetAccount.address,
+                    new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(amount)),
+                    `stream${amount}`,
+                );
+            }
+        };
+        const errors = await symbolService.executeUnsignedBatches(
+            symbolService.generateAggregateCompleteTxBatches(generateTxs(), undefined, 1),
+            signerAccount,
+            [],
+            1,
+            { policy: "fail-fast" },
+        );
+
+        expect(errors?.[0].code).toBe("Failure_Core_Insufficient_Balance");
+        expect(progress.filter((value) => value.type === "announced")).toHaveLength(2);
+    });
+
+});
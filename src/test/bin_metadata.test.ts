@@ -0,0 +1,87 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Convert, MetadataType, RepositoryFactory} from "symbol-sdk";
+
+
+describe("Binary metadata", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let sourceAccount: Account;
+    let targetAccount: Account;
+    const key = "update1key";
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        sourceAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    const compositeHash = () => SymbolService.calculateMetadataHash(
+        MetadataType.Account,
+        sourceAccount.address,
+        targetAccount.address,
+        undefined,
+        SymbolService.generateKey(key),
+    );
+
+    // Returns confirmed value
+    const update = async (value: string) => {
+        const tx = await symbolService.updateMetadataTx(
+            MetadataType.Account,
+            sourceAccount.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            key,
+            value,
+        );
+        if (tx) {
+            const result = await SymbolTest.doAggregateTx([ tx ], sourceAccount, [ targetAccount ]);
+            expect(result?.error).toBeUndefined();
+        }
+        return { tx, value: simulator.getMetadata(compositeHash())?.value };
+    };
+
+    it("Create, update and delete with updateMetadataTx", async () => {
+        expect((await update("initial value")).value).toStrictEqual(Convert.utf8ToUint8("initial value"));
+        expect((await update("longer value than before")).value).toStrictEqual(Convert.utf8ToUint8("longer value than before"));
+        expect((await update("short")).value).toStrictEqual(Convert.utf8ToUint8("short"));
+
+        // No change
+        expect((await update("short")).tx).toBeUndefined();
+
+        // Delete
+        expect((await update("")).value).toBeUndefined();
+        expect((await update("")).tx).toBeUndefined();
+    });
+
+    it("Repository of repo_factory", async () => {
+        await update("from simulator");
+        const metadata = await symbolService.getBinMetadataByHash(compositeHash());
+        const metadataPool = await symbolService.searchBinMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, target: targetAccount, key },
+        );
+
+        expect(metadata.metadataEntry.value).toStrictEqual(Convert.utf8ToUint8("from simulator"));
+        expect(metadataPool.map((metadata) => metadata.metadataEntry.value)).toStrictEqual([ metadata.metadataEntry.value ]);
+    });
+
+    it("Fall back to BinMetadataHttp", async () => {
+        // Custom factory without createBinMetadataRepository
+        const factory = simulator.createRepositoryFactory();
+        const plainFactory = new Proxy(factory, {
+            get: (target, prop) => prop === "createBinMetadataRepository" ? undefined : (target as any)[prop],
+        }) as RepositoryFactory;
+        const service = new SymbolService({ node_url: simulator.url, repo_factory: plainFactory });
+
+        await expect(service.getBinMetadataByHash(compositeHash())).rejects.toThrow();
+        expect(service.createBinMetadataRepository().constructor.name).toBe("BinMetadataHttp");
+    });
+
+});
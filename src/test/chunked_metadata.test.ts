@@ -0,0 +1,189 @@
+import {SymbolTest} from "./utils";
+import {ChunkedMetadataService, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, MetadataType} from "symbol-sdk";
+
+
+describe("Chunked metadata", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let chunkedService: ChunkedMetadataService;
+    let sourceAccount: Account;
+    const payload = new Uint8Array(2500).map((_, index) => index % 251);
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        chunkedService = new ChunkedMetadataService(symbolService);
+        sourceAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Split and join", async () => {
+        const { header, chunks } = ChunkedMetadataService.split(payload, 1024);
+
+        expect(chunks.map((chunk) => chunk.length)).toStrictEqual([ 1024, 1024, 452 ]);
+        expect(header.size).toBe(2500);
+        expect(header.chunks).toBe(3);
+        expect(ChunkedMetadataService.join(header, chunks)).toStrictEqual(payload);
+        expect(ChunkedMetadataService.decodeHeader(ChunkedMetadataService.encodeHeader(header))).toStrictEqual(header);
+    });
+
+    it("Integrity errors", async () => {
+        const { header, chunks } = ChunkedMetadataService.split(payload, 1024);
+
+        expect(() => ChunkedMetadataService.join(header, [ chunks[0], undefined, chunks[2] ]))
+            .toThrow("Chunk #1 is missing");
+        expect(() => ChunkedMetadataService.join(header, [ chunks[0], chunks[1], chunks[2].slice(1) ]))
+            .toThrow("Size mismatched");
+        const broken = chunks[1].slice();
+        broken[0] ^= 0xFF;
+        expect(() => ChunkedMetadataService.join(header, [ chunks[0], broken, chunks[2] ]))
+            .toThrow("Checksum mismatched");
+        expect(() => ChunkedMetadataService.decodeHeader(new Uint8Array([ 1, 2, 3 ])))
+            .toThrow("Malformed header");
+    });
+
+    it("Store chunks", async () => {
+        const txs = await chunkedService.createStoreTxs(
+            MetadataType.Account,
+            sourceAccount.publicAccount,
+            sourceAccount.publicAccount,
+            undefined,
+            "chunked",
+            payload,
+        );
+        // 3 chunks and the header
+        expect(txs).toHaveLength(4);
+
+        const errors = await symbolService.executeBatches(
+            await symbolService.buildSignedAggregateCompleteTxBatches(txs, sourceAccount),
+            sourceAccount,
+        );
+        expect(errors).toBeUndefined();
+
+        const chunks = [ 0, 1, 2 ].map((index) => simulator.getMetadata(SymbolService.calculateMetadataHash(
+            MetadataType.Account,
+            sourceAccount.address,
+            sourceAccount.address,
+            undefined,
+            ChunkedMetadataService.chunkKey("chunked", index),
+        ))?.value);
+        const headerValue = simulator.getMetadata(SymbolService.calculateMetadataHash(
+            MetadataType.Account,
+            sourceAccount.address,
+            sourceAccount.address,
+            undefined,
+            SymbolService.generateKey("chunked"),
+        ))?.value;
+
+        expect(headerValue).toBeDefined();
+        const header = ChunkedMetadataService.decodeHeader(headerValue ?? new Uint8Array());
+        expect(ChunkedMetadataService.join(header, chunks)).toStrictEqual(payload);
+    });
+
+    it("Load and delete", async () => {
+        const stored = await chunkedService.load(
+            MetadataType.Account, sourceAccount, sourceAccount, undefined, "chunked",
+        );
+        expect(stored).toStrictEqual(payload);
+
+        const errors = await chunkedService.delete(
+            MetadataType.Account, sourceAccount, sourceAccount.publicAccount, undefined, "chunked",
+        );
+        expect(errors).toBeUndefined();
+        expect(await chunkedService.load(MetadataType.Account, sourceAccount, sourceAccount, undefined, "chunked"))
+            .toBeUndefined();
+        expect(simulator.metadataEntries.filter((entry) => entry.sourceAddress.equals(sourceAccount.address)))
+            .toHaveLength(0);
+    });
+
+    it("Store and load with small chunks", async () => {
+        const smallChunkService = new ChunkedMetadataService(symbolService, { chunk_size: 100 });
+        const errors = await smallChunkService.store(
+            MetadataType.Account, sourceAccount, sourceAccount.publicAccount, undefined, "small", payload,
+        );
+
+        expect(errors).toBeUndefined();
+        expect(await smallChunkService.load(MetadataType.Account, sourceAccount, sourceAccount, undefined, "small"))
+            .toStrictEqual(payload);
+    });
+
+    it("Load with limited parallel requests", async () => {
+        const limitedService = new ChunkedMetadataService(symbolService, { chunk_size: 100, max_parallels: 2 });
+        const getBinMetadataByHash = symbolService.getBinMetadataByHash.bind(symbolService);
+        let calls = 0;
+        let running = 0;
+        let maxRunning = 0;
+        const spy = jest.spyOn(symbolService, "getBinMetadataByHash").mockImplementation(async (compositeHash) => {
+            calls++;
+            maxRunning = Math.max(maxRunning, ++running);
+            return getBinMetadataByHash(compositeHash).finally(() => running--);
+        });
+
+        const stored = await limitedService.load(MetadataType.Account, sourceAccount, sourceAccount, undefined, "small")
+            .finally(() => spy.mockRestore());
+
+        expect(stored).toStrictEqual(payload);
+        // The header and 25 chunks
+        expect(calls).toBe(26);
+        expect(maxRunning).toBe(2);
+    });
+
+    it("Store over existing payload", async () => {
+        await expect(chunkedService.store(
+            MetadataType.Account, sourceAccount, sourceAccount.publicAccount, undefined, "small", payload,
+        )).rejects.toThrow(`Metadata ${SymbolService.generateKey("small").toHex()} already exists`);
+    });
+
+    it("Store after interrupted", async () => {
+        // Only chunk #0 with other value has been stored
+        const smallChunkService = new ChunkedMetadataService(symbolService, { chunk_size: 100 });
+        const tx = await symbolService.createMetadataTx(
+            MetadataType.Account,
+            sourceAccount.publicAccount,
+            sourceAccount.publicAccount,
+            undefined,
+            ChunkedMetadataService.chunkKey("interrupted", 0),
+            new Uint8Array(50).fill(1),
+        );
+        const result = await SymbolTest.doAggregateTx([ tx ], sourceAccount, []);
+        expect(result?.error).toBeUndefined();
+
+        const errors = await smallChunkService.store(
+            MetadataType.Account, sourceAccount, sourceAccount.publicAccount, undefined, "interrupted", payload,
+        );
+        expect(errors).toBeUndefined();
+        expect(await smallChunkService.load(MetadataType.Account, sourceAccount, sourceAccount, undefined, "interrupted"))
+            .toStrictEqual(payload);
+    });
+
+    it("Broken chunk", async () => {
+        // Chunk #1 is deleted behind the header
+        const chunkValue = simulator.getMetadata(SymbolService.calculateMetadataHash(
+            MetadataType.Account,
+            sourceAccount.address,
+            sourceAccount.address,
+            undefined,
+            ChunkedMetadataService.chunkKey("small", 1),
+        ))?.value ?? new Uint8Array();
+        const tx = await symbolService.createMetadataTx(
+            MetadataType.Account,
+            sourceAccount.publicAccount,
+            sourceAccount.publicAccount,
+            undefined,
+            ChunkedMetadataService.chunkKey("small", 1),
+            chunkValue,
+            -chunkValue.length,
+        );
+        const result = await SymbolTest.doAggregateTx([ tx ], sourceAccount, []);
+        expect(result?.error).toBeUndefined();
+
+        await expect(chunkedService.load(MetadataType.Account, sourceAccount, sourceAccount, undefined, "small"))
+            .rejects.toThrow("Chunk #1 is missing");
+    });
+
+});
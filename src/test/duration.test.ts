@@ -0,0 +1,72 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, NamespaceId, UInt64} from "symbol-sdk";
+import moment from "moment";
+
+
+describe("Duration", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let ownerAccount: Account;
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        ownerAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Duration to milliseconds", async () => {
+        expect(SymbolService.toDurationMsecs("30d")).toBe(30 * 24 * 60 * 60 * 1000);
+        expect(SymbolService.toDurationMsecs("90m")).toBe(90 * 60 * 1000);
+        expect(SymbolService.toDurationMsecs("500ms")).toBe(500);
+        expect(SymbolService.toDurationMsecs(moment.duration(2, "hours"))).toBe(2 * 60 * 60 * 1000);
+
+        expect(() => SymbolService.toDurationMsecs("30 days")).toThrow("Invalid duration: 30 days");
+        expect(() => SymbolService.toDurationMsecs("-1s")).toThrow("Invalid duration: -1s");
+        expect(() => SymbolService.toDurationMsecs(moment.duration(-1, "hours"))).toThrow("Invalid duration");
+    });
+
+    it("Blocks", async () => {
+        // Block generation target time of the simulator is 30 seconds
+        expect(await symbolService.getBlockGenerationTargetMsecs()).toBe(30000);
+        expect((await symbolService.durationToBlocks("30d")).toString()).toBe("86400");
+        expect((await symbolService.durationToBlocks(moment.duration(1, "hour"))).toString()).toBe("120");
+        // Rounded up
+        expect((await symbolService.durationToBlocks("45s")).toString()).toBe("2");
+
+        expect((await symbolService.blocksToDuration(86400)).asDays()).toBe(30);
+        expect((await symbolService.blocksToDuration(UInt64.fromUint(120))).asHours()).toBe(1);
+    });
+
+    it("Register namespace with duration", async () => {
+        const result = await SymbolTest.doAggregateTx([
+            await symbolService.createNamespaceRegistrationTx(
+                ownerAccount.publicAccount, "duration", await symbolService.durationToBlocks("30d"),
+            ),
+        ], ownerAccount, []);
+        expect(result?.error).toBeUndefined();
+
+        const namespace = simulator.getNamespace(new NamespaceId("duration"));
+        expect(namespace?.endHeight.subtract(namespace.startHeight).toString()).toBe("86400");
+    });
+
+    it("Height to timestamp", async () => {
+        const epochAdjustmentMsecs = simulator.config.epoch_adjustment * 1000;
+        // Nemesis block
+        expect(await symbolService.getHeightTimestamp(UInt64.fromUint(1))).toBe(epochAdjustmentMsecs);
+
+        const height = simulator.height;
+        const timestamp = await symbolService.getHeightTimestamp(height);
+        expect(timestamp).toBe(epochAdjustmentMsecs + Number(simulator.getBlock(height)?.timestamp.toString()));
+        expect(Math.abs(timestamp - moment.now())).toBeLessThan(60000);
+
+        // Estimated
+        expect(await symbolService.getHeightTimestamp(height.add(UInt64.fromUint(10)))).toBe(timestamp + 10 * 30000);
+    });
+
+});
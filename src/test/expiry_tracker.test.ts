@@ -0,0 +1,119 @@
+import {SymbolTest} from "./utils";
+import {ExpiryTrackerService, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, InnerTransaction, MosaicDefinitionTransaction, MosaicId, NamespaceId, UInt64} from "symbol-sdk";
+import moment from "moment";
+
+
+describe("Expiry tracker", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let trackerService: ExpiryTrackerService;
+    let ownerAccount: Account;
+    let mosaicId: MosaicId;
+    let emptyMosaicId: MosaicId;
+
+    const execute = async (txs: InnerTransaction[], signer: Account) => {
+        const result = await SymbolTest.doAggregateTx(txs, signer, []);
+        expect(result?.error).toBeUndefined();
+    };
+
+    const defineMosaic = async (durationBlocks: number, supplyAmount: number, divisibility: number = 0) => {
+        const { txs, mosaicId } = await symbolService.createMosaicDefinitionTx(
+            ownerAccount.publicAccount, UInt64.fromUint(durationBlocks), divisibility, supplyAmount,
+        );
+        await execute(txs, ownerAccount);
+        return mosaicId;
+    };
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        trackerService = new ExpiryTrackerService(symbolService);
+        ownerAccount = await SymbolTest.generateFundedAccount();
+
+        await execute([
+            await symbolService.createNamespaceRegistrationTx(ownerAccount.publicAccount, "long", UInt64.fromUint(1000)),
+            await symbolService.createNamespaceRegistrationTx(ownerAccount.publicAccount, "short", UInt64.fromUint(10)),
+            await symbolService.createSubNamespaceRegistrationTx(ownerAccount.publicAccount, "child", "short"),
+        ], ownerAccount);
+        mosaicId = await defineMosaic(500, 100);
+        emptyMosaicId = await defineMosaic(20, 0, 2);
+        // Eternal
+        await defineMosaic(0, 100);
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("List expiries", async () => {
+        const expiries = await trackerService.getExpiries(ownerAccount.address, { warningPeriod: moment.duration(30, "minutes") });
+
+        expect(expiries.map((expiry) => expiry.name ?? expiry.id.toHex())).toStrictEqual([
+            "short", emptyMosaicId.toHex(), mosaicId.toHex(), "long",
+        ]);
+        const [ short, emptyMosaic, mosaic ] = expiries;
+        expect(short.type).toBe("namespace");
+        expect(short.remainingMsecs).toBe(short.remainingBlocks * 30000);
+        expect(short.expiring).toBeTruthy();
+        expect(short.expired).toBeFalsy();
+        expect(emptyMosaic.expiring).toBeTruthy();
+        expect(emptyMosaic.renewable).toBeTruthy();
+        expect(mosaic.expiring).toBeFalsy();
+        expect(mosaic.renewable).toBeFalsy();
+        expect(mosaic.expiryHeight.toString())
+            .toBe(simulator.getMosaic(mosaicId)?.startHeight.add(UInt64.fromUint(500)).toString());
+
+        const expiring = await trackerService.checkExpiries(ownerAccount.address, { warningPeriod: moment.duration(30, "minutes") });
+        expect(expiring.map((expiry) => expiry.id.toHex())).toStrictEqual([
+            new NamespaceId("short").toHex(), emptyMosaicId.toHex(),
+        ]);
+    });
+
+    it("Renew", async () => {
+        const expiries = await trackerService.checkExpiries(ownerAccount.address, { warningPeriod: moment.duration(30, "minutes") });
+        await execute(
+            await trackerService.createRenewalTxs(ownerAccount.publicAccount, expiries, UInt64.fromUint(100)),
+            ownerAccount,
+        );
+
+        const renewed = await trackerService.getExpiries(ownerAccount.address, { warningPeriod: moment.duration(30, "minutes") });
+        for (const expiry of expiries) {
+            const renewedExpiry = renewed.find((item) => item.id.equals(expiry.id));
+            expect(renewedExpiry?.expiryHeight.equals(expiry.expiryHeight.add(UInt64.fromUint(100)))).toBeTruthy();
+            expect(renewedExpiry?.expiring).toBeFalsy();
+        }
+        // Child follows the root
+        expect(simulator.getNamespace(new NamespaceId("short.child"))?.endHeight
+            .equals(expiries[0].expiryHeight.add(UInt64.fromUint(100)))).toBeTruthy();
+
+        // Flags and divisibility are kept
+        const emptyMosaic = simulator.getMosaic(emptyMosaicId);
+        expect(emptyMosaic?.divisibility).toBe(2);
+        expect(emptyMosaic?.flags.supplyMutable).toBeTruthy();
+        expect(emptyMosaic?.flags.transferable).toBeTruthy();
+        expect(emptyMosaic?.flags.restrictable).toBeTruthy();
+        expect(emptyMosaic?.flags.revokable).toBeFalsy();
+
+        const mosaic = renewed.find((expiry) => expiry.id.equals(mosaicId));
+        await expect(trackerService.createRenewalTxs(ownerAccount.publicAccount, mosaic ? [ mosaic ] : [], UInt64.fromUint(100)))
+            .rejects.toThrow(`Mosaic ${mosaicId.toHex()} is not renewable because its supply is not zero`);
+    });
+
+    it("Expired mosaic can't be renewed", async () => {
+        const { txs, mosaicId } = await symbolService.createMosaicDefinitionTx(
+            ownerAccount.publicAccount, UInt64.fromUint(1), 0, 0,
+        );
+        await execute(txs, ownerAccount);
+
+        const definitionTx = txs[0] as MosaicDefinitionTransaction;
+        const result = await SymbolTest.doAggregateTx([
+            await symbolService.createMosaicRenewalTx(
+                ownerAccount.publicAccount, definitionTx.nonce, mosaicId, UInt64.fromUint(100),
+            ),
+        ], ownerAccount, []);
+        expect(result?.error).toBe("Received error status: Failure_Mosaic_Expired");
+    });
+
+});
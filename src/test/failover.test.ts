@@ -0,0 +1,166 @@
+import {SymbolTest} from "./utils";
+import {NodeStatistics, NodeTrackerService, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Mosaic, NetworkType, UInt64} from "symbol-sdk";
+
+
+describe("Failover", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let otherChain: SimulatedChain;
+    let signerAccount: Account;
+    let targetAccount: Account;
+    const nodeA = "http://simulator:3000";
+    const nodeB = "http://simulator-b:3000";
+    // Belongs to another network
+    const nodeC = "http://other-chain:3000";
+
+    const sleep = (msecs: number) => new Promise((resolve) => setTimeout(resolve, msecs));
+
+    beforeAll(async () => {
+        otherChain = new SimulatedChain({
+            generation_hash: "0000000000000000000000000000000000000000000000000000000000000000",
+            auto_mining: false,
+        });
+        symbolService = SymbolTest.initSimulator({
+            node_urls: [ nodeA, nodeC, nodeB ],
+            repo_factory_provider: (nodeUrl) => nodeUrl === nodeC
+                ? otherChain.createRepositoryFactory(nodeUrl)
+                : simulator.createRepositoryFactory(nodeUrl),
+            reconnect_interval_secs: 0.1,
+        }, { auto_mining: false });
+        simulator = SymbolTest.simulator;
+        signerAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+        otherChain.stop();
+    });
+
+    it("Switch node on HTTP error", async () => {
+        expect(symbolService.config.node_url).toBe(nodeA);
+        simulator.setNodeOffline(nodeA);
+        const balance = await symbolService.getAccountBalance(signerAccount.address, simulator.currencyMosaicId);
+
+        expect(balance).toStrictEqual(UInt64.fromUint(1000000000));
+        // Node C is skipped because of different generation hash
+        expect(symbolService.config.node_url).toBe(nodeB);
+        expect((await symbolService.getNetwork()).networkGenerationHash).toBe(simulator.config.generation_hash);
+    });
+
+    it("Switch node on listener error", async () => {
+        const transferTx = await symbolService.createTransferTx(
+            signerAccount.publicAccount,
+            targetAccount.address,
+            new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(1)),
+            "failover",
+        );
+        const aggregateTx = await symbolService.composeAggregateCompleteTx(
+            await symbolService.getFeeMultiplier(0), 0, [ transferTx ],
+        );
+        const { networkGenerationHash } = await symbolService.getNetwork();
+        const signedTx = signerAccount.sign(aggregateTx, networkGenerationHash);
+        await symbolService.announceTxWithCosignatures(signedTx, []);
+        const promise = symbolService.waitTxsFor(signerAccount, signedTx, "confirmed", 10000);
+        await sleep(50);
+
+        // Node B goes down and node A comes back
+        simulator.setNodeOffline(nodeA, false);
+        simulator.setNodeOffline(nodeB);
+        simulator.mineBlock();
+        const result = (await promise).shift();
+
+        expect(result?.error).toBeUndefined();
+        expect(result?.timedOut).toBeFalsy();
+        expect(symbolService.config.node_url).toBe(nodeA);
+    });
+
+    it("Not found is not subject to failover", async () => {
+        expect(await symbolService.getConfirmedTx("00".repeat(32))).toBeUndefined();
+        expect(symbolService.config.node_url).toBe(nodeA);
+    });
+
+    it("Switch node on binary metadata request", async () => {
+        simulator.setNodeOffline(nodeB, false);
+        simulator.setNodeOffline(nodeA);
+
+        await expect(symbolService.getBinMetadataByHash("00".repeat(32))).rejects.toThrow('"statusCode":404');
+        expect(symbolService.config.node_url).toBe(nodeB);
+        simulator.setNodeOffline(nodeA, false);
+        simulator.setNodeOffline(nodeB);
+    });
+
+    it("No available node", async () => {
+        simulator.setNodeOffline(nodeA);
+
+        await expect(symbolService.getAccountBalance(signerAccount.address, simulator.currencyMosaicId))
+            .rejects.toThrow("ECONNREFUSED");
+        simulator.setNodeOffline(nodeA, false);
+        simulator.setNodeOffline(nodeB, false);
+    });
+
+});
+
+describe("Failover with node tracker", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let otherChain: SimulatedChain;
+    let nodeTracker: NodeTrackerService;
+    let signerAccount: Account;
+    const nodeA = "http://simulator:3000";
+    const unhealthyNode = "http://unhealthy:3000";
+    const otherChainNode = "http://other-chain:3000";
+    const nodeD = "http://simulator-d:3000";
+    const nodeE = "http://simulator-e:3000";
+
+    const toNode = (restGatewayUrl: string) => ({ apiStatus: { restGatewayUrl } } as NodeStatistics);
+
+    beforeAll(async () => {
+        otherChain = new SimulatedChain({
+            generation_hash: "0000000000000000000000000000000000000000000000000000000000000000",
+        });
+        const nodes = [ nodeA, unhealthyNode, otherChainNode, nodeD, nodeE ].map((nodeUrl) => toNode(nodeUrl));
+        // Stubbed tracker that doesn't access the statistics service
+        nodeTracker = new NodeTrackerService("http://statistics:3000", NetworkType.TEST_NET);
+        jest.spyOn(nodeTracker, "availableNodes", "get").mockReturnValue(nodes);
+        jest.spyOn(nodeTracker, "pickMulti").mockReturnValue(nodes);
+        jest.spyOn(nodeTracker, "checkHealth").mockImplementation(async (nodeUrl) =>
+            nodeUrl === unhealthyNode ? undefined : toNode(nodeUrl)
+        );
+
+        symbolService = SymbolTest.initSimulator({
+            node_tracker: nodeTracker,
+            repo_factory_provider: (nodeUrl) => nodeUrl === otherChainNode
+                ? otherChain.createRepositoryFactory(nodeUrl)
+                : simulator.createRepositoryFactory(nodeUrl),
+        });
+        simulator = SymbolTest.simulator;
+        signerAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+        otherChain.stop();
+    });
+
+    it("Pick healthy node of the same network", async () => {
+        simulator.setNodeOffline(nodeA);
+        const balance = await symbolService.getAccountBalance(signerAccount.address, simulator.currencyMosaicId);
+
+        expect(balance).toStrictEqual(UInt64.fromUint(1000000000));
+        expect(nodeTracker.pickMulti).toBeCalledWith(5);
+        // The failed node is not checked
+        expect(nodeTracker.checkHealth).not.toBeCalledWith(nodeA);
+        expect(nodeTracker.checkHealth).toBeCalledWith(unhealthyNode);
+        expect(nodeTracker.checkHealth).toBeCalledWith(otherChainNode);
+        expect(nodeTracker.checkHealth).toBeCalledWith(nodeD);
+        // Nodes after the first match are not checked
+        expect(nodeTracker.checkHealth).not.toBeCalledWith(nodeE);
+        // The unhealthy node is skipped, and the node of other network is rejected by generation hash
+        expect(symbolService.config.node_url).toBe(nodeD);
+        simulator.setNodeOffline(nodeA, false);
+    });
+
+});
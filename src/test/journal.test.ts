@@ -0,0 +1,236 @@
+import {SymbolTest} from "./utils";
+import {BatchJournalService, BatchProgress, SignedAggregateTx, SymbolService} from "../services";
+import {FileJournalStore, MemoryJournalStore} from "../libs";
+import {SimulatedChain} from "./simulator";
+import {Account, AggregateTransaction, Deadline, Mosaic, UInt64} from "symbol-sdk";
+import {Subscription} from "rxjs";
+import moment from "moment";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+
+describe("Batch journal", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let signerAccount: Account;
+    let targetAccount: Account;
+    let progress: BatchProgress[];
+    let subscription: Subscription;
+    const journalPath = path.join(os.tmpdir(), `symbol-service-journal-${moment.now()}`, "journal.json");
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        signerAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+        subscription = symbolService.batchObserver.subscribe((value) => progress.push(value));
+    });
+
+    beforeEach(() => {
+        progress = [];
+    });
+
+    afterAll(async () => {
+        subscription.unsubscribe();
+        simulator.stop();
+        await fs.promises.rm(path.dirname(journalPath), { recursive: true, force: true });
+    });
+
+    // Build one batch per amount
+    const buildBatches = async (amounts: number[], deadline?: Deadline) => {
+        const { networkType, networkGenerationHash } = await symbolService.getNetwork();
+        const batches = new Array<SignedAggregateTx>();
+        for (const amount of amounts) {
+            const transferTx = await symbolService.createTransferTx(
+                signerAccount.publicAccount,
+                targetAccount.address,
+                new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(amount)),
+                `amount${amount}`,
+            );
+            if (deadline) {
+                const aggregateTx = AggregateTransaction.createComplete(deadline, [ transferTx ], networkType, [])
+                    .setMaxFeeForAggregate(await symbolService.getFeeMultiplier(), 0);
+                batches.push({
+                    signedTx: signerAccount.sign(aggregateTx, networkGenerationHash),
+                    cosignatures: [],
+                    maxFee: aggregateTx.maxFee,
+                });
+            } else {
+                batches.push(...await symbolService.buildSignedAggregateCompleteTxBatches(
+                    [ transferTx ], signerAccount, [],
+                ));
+            }
+        }
+        return batches;
+    };
+
+    it("Serialize entry", async () => {
+        const [ batch ] = await buildBatches([ 1 ]);
+        const entry = BatchJournalService.toEntry(batch, 0);
+        const restored = BatchJournalService.fromEntry(JSON.parse(JSON.stringify(entry)));
+
+        expect(restored.signedTx).toStrictEqual(batch.signedTx);
+        expect(restored.maxFee).toStrictEqual(batch.maxFee);
+        expect(entry.state).toBe("pending");
+    });
+
+    it("Skip confirmed batches", async () => {
+        const journalService = new BatchJournalService(symbolService, new MemoryJournalStore());
+        const batches = await buildBatches([ 2, 3, 4 ]);
+        let result = await journalService.execute(signerAccount, batches);
+
+        expect(result.errors).toBeUndefined();
+        expect(result.expired).toHaveLength(0);
+        expect((await journalService.store.list()).map((entry) => entry.state))
+            .toStrictEqual([ "confirmed", "confirmed", "confirmed" ]);
+
+        progress = [];
+        result = await journalService.execute(signerAccount, batches);
+
+        expect(result.errors).toBeUndefined();
+        expect(progress).toHaveLength(0);
+    });
+
+    it("Resume from file", async () => {
+        const batches = await buildBatches([ 5, 6, 7 ]);
+        const store = new FileJournalStore(journalPath);
+        await new BatchJournalService(symbolService, store).record(batches);
+
+        // The first batch has been confirmed but crashed before recording it.
+        const entries = await store.list();
+        await store.put([ { ...entries[0], state: "announced" } ]);
+        await symbolService.executeBatches(batches.slice(0, 1), signerAccount);
+        progress = [];
+
+        const journalService = new BatchJournalService(symbolService, new FileJournalStore(journalPath));
+        const result = await journalService.execute(signerAccount);
+
+        expect(result.errors).toBeUndefined();
+        expect(progress.filter((value) => value.type === "announced").map((value) => value.batch?.signedTx.hash))
+            .toStrictEqual([ batches[1].signedTx.hash, batches[2].signedTx.hash ]);
+        expect((await new FileJournalStore(journalPath).list()).map((entry) => entry.state))
+            .toStrictEqual([ "confirmed", "confirmed", "confirmed" ]);
+    });
+
+    it("Append states to file and compact on load", async () => {
+        const filePath = path.join(path.dirname(journalPath), "append.json");
+        const [ batch ] = await buildBatches([ 15 ]);
+        const entry = BatchJournalService.toEntry(batch, 0);
+        const store = new FileJournalStore(filePath);
+        await store.put([ entry ]);
+        await store.put([ { ...entry, state: "announced" } ]);
+        await store.put([ { ...entry, state: "failed", error: "Failure" } ]);
+
+        const readLines = async () => (await fs.promises.readFile(filePath, "utf-8")).split("\n").filter((line) => line);
+        // Header, entry and state changes
+        let lines = await readLines();
+        expect(lines).toHaveLength(4);
+        expect(JSON.parse(lines[3])).toStrictEqual({
+            hash: entry.hash,
+            state: "failed",
+            error: "Failure",
+            updated_at: entry.updated_at,
+        });
+
+        // Crashed while appending
+        await fs.promises.appendFile(filePath, `{"hash":"${entry.hash}","sta`, "utf-8");
+        expect(await new FileJournalStore(filePath).list()).toStrictEqual([ { ...entry, state: "failed", error: "Failure" } ]);
+        lines = await readLines();
+        expect(lines).toHaveLength(2);
+
+        await store.clear();
+        await store.clear();
+        expect(await new FileJournalStore(filePath).list()).toHaveLength(0);
+    });
+
+    it("Resume batch confirmed while pending", async () => {
+        const batches = await buildBatches([ 11, 12 ]);
+        const journalService = new BatchJournalService(symbolService, new MemoryJournalStore());
+        await journalService.record(batches);
+
+        // The first batch has been announced and confirmed but crashed before recording "announced".
+        await symbolService.executeBatches(batches.slice(0, 1), signerAccount);
+        progress = [];
+
+        const result = await journalService.execute(signerAccount);
+
+        expect(result.errors).toBeUndefined();
+        expect(progress.filter((value) => value.type === "announced").map((value) => value.batch?.signedTx.hash))
+            .toStrictEqual([ batches[1].signedTx.hash ]);
+        expect((await journalService.store.list()).map((entry) => entry.state))
+            .toStrictEqual([ "confirmed", "confirmed" ]);
+    });
+
+    it("Continue after failed write", async () => {
+        const store = new MemoryJournalStore();
+        const put = store.put.bind(store);
+        let failures = 0;
+        store.put = async (entries) => {
+            if (entries.some((entry) => entry.state === "announced")) {
+                failures++;
+                throw new Error("Disk full");
+            }
+            return put(entries);
+        };
+        const journalService = new BatchJournalService(symbolService, store);
+        const result = await journalService.execute(signerAccount, await buildBatches([ 9, 10 ]));
+
+        expect(result.errors).toBeUndefined();
+        expect(failures).toBe(2);
+        // Following writes are not blocked
+        expect((await store.list()).map((entry) => entry.state)).toStrictEqual([ "confirmed", "confirmed" ]);
+    });
+
+    it("Report expired and failed batches", async () => {
+        const { epochAdjustment } = await symbolService.getNetwork();
+        const journalService = new BatchJournalService(symbolService, new MemoryJournalStore());
+        const expiredBatches = await buildBatches(
+            [ 8 ],
+            Deadline.createFromAdjustedValue(moment.now() - epochAdjustment * 1000 - 1000),
+        );
+        const failedBatches = await buildBatches([ 1000000000000 ]);
+        const result = await journalService.execute(signerAccount, [ ...expiredBatches, ...failedBatches ]);
+
+        expect(result.expired.map((batch) => batch.signedTx.hash)).toStrictEqual([ expiredBatches[0].signedTx.hash ]);
+        expect(result.errors?.map((error) => error.txHash)).toStrictEqual([ failedBatches[0].signedTx.hash ]);
+        expect((await journalService.store.list()).map((entry) => entry.state)).toStrictEqual([ "expired", "failed" ]);
+        // The expired batch is never announced
+        expect(progress.filter((value) => value.type === "announced")).toHaveLength(1);
+    });
+
+    it("Resume after re-signing expired batch", async () => {
+        const { epochAdjustment } = await symbolService.getNetwork();
+        const journalService = new BatchJournalService(symbolService, new MemoryJournalStore());
+        const [ expiredBatch ] = await buildBatches(
+            [ 14 ],
+            Deadline.createFromAdjustedValue(moment.now() - epochAdjustment * 1000 - 1000),
+        );
+        let result = await journalService.execute(signerAccount, [ expiredBatch ]);
+        expect(result.expired).toHaveLength(1);
+
+        const [ resignedBatch ] = await buildBatches([ 14 ]);
+        await journalService.replace(expiredBatch.signedTx.hash, resignedBatch);
+        // Only expired ones can be replaced
+        await expect(journalService.replace(expiredBatch.signedTx.hash, resignedBatch))
+            .rejects.toThrow("Expired batch not found");
+
+        progress = [];
+        result = await journalService.execute(signerAccount);
+
+        expect(result.errors).toBeUndefined();
+        expect(result.expired).toHaveLength(0);
+        expect(progress.filter((value) => value.type === "announced").map((value) => value.batch?.signedTx.hash))
+            .toStrictEqual([ resignedBatch.signedTx.hash ]);
+
+        // Nothing left on the second resume
+        progress = [];
+        result = await journalService.execute(signerAccount);
+
+        expect(result.errors).toBeUndefined();
+        expect(result.expired).toHaveLength(0);
+        expect(progress).toHaveLength(0);
+        expect((await journalService.store.list()).map((entry) => entry.state)).toStrictEqual([ "resigned", "confirmed" ]);
+    });
+
+});
@@ -0,0 +1,120 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Mosaic, SignedTransaction, UInt64} from "symbol-sdk";
+
+
+describe("Listener", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let signerAccount: Account;
+    let targetAccount: Account;
+
+    const sleep = (msecs: number) => new Promise((resolve) => setTimeout(resolve, msecs));
+
+    const announceTransferTx = async () => {
+        const transferTx = await symbolService.createTransferTx(
+            signerAccount.publicAccount,
+            targetAccount.address,
+            new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(1)),
+            "listener",
+        );
+        const aggregateTx = await symbolService.composeAggregateCompleteTx(
+            await symbolService.getFeeMultiplier(0), 0, [ transferTx ],
+        );
+        const { networkGenerationHash } = await symbolService.getNetwork();
+        const signedTx = signerAccount.sign(aggregateTx, networkGenerationHash);
+        await symbolService.announceTxWithCosignatures(signedTx, []);
+        return signedTx;
+    };
+
+    const init = async (listenerMode: "websocket" | "polling") => {
+        symbolService = SymbolTest.initSimulator({
+            listener_mode: listenerMode,
+            reconnect_interval_secs: 0.1,
+            polling_interval_secs: 0.1,
+        }, { auto_mining: false });
+        simulator = SymbolTest.simulator;
+        signerAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+    };
+
+    afterEach(() => {
+        simulator.stop();
+    });
+
+    it("Reconnect WebSocket", async () => {
+        await init("websocket");
+        const signedTx: SignedTransaction = await announceTransferTx();
+        const promise = symbolService.waitTxsFor(signerAccount, signedTx, "confirmed", 10000);
+        await sleep(50);
+
+        // Confirmed while disconnected (notification is lost)
+        simulator.disconnectListeners();
+        simulator.mineBlock();
+        const result = (await promise).shift();
+
+        expect(result?.error).toBeUndefined();
+        expect(result?.timedOut).toBeFalsy();
+        expect(simulator.getConfirmedTx(signedTx.hash)).toBeDefined();
+    });
+
+    it("Fall back to polling when failed to open WebSocket", async () => {
+        await init("websocket");
+        symbolService.config.max_reconnects = 2;
+        simulator.setWebSocketBlocked();
+        const listener = await symbolService.createListener();
+        let checks = 0;
+        await listener.open();
+        listener.watch({ check: async () => { checks++; } });
+        await sleep(500);
+
+        expect(listener.mode).toBe("polling");
+        expect(checks).toBeGreaterThan(1);
+        listener.close();
+    });
+
+    it("Connect WebSocket after failed to open", async () => {
+        await init("websocket");
+        simulator.setWebSocketBlocked();
+        const signedTx = await announceTransferTx();
+        const promise = symbolService.waitTxsFor(signerAccount, signedTx, "confirmed", 10000);
+        await sleep(50);
+
+        simulator.setWebSocketBlocked(false);
+        await sleep(200);
+        expect(simulator.numOpenListeners).toBe(1);
+        simulator.mineBlock();
+        const result = (await promise).shift();
+
+        expect(result?.error).toBeUndefined();
+        expect(result?.timedOut).toBeFalsy();
+    });
+
+    it("Polling mode", async () => {
+        await init("polling");
+        const signedTx = await announceTransferTx();
+        const promise = symbolService.waitTxsFor(signerAccount, signedTx, "confirmed", 10000);
+        await sleep(50);
+        simulator.mineBlock();
+        const result = (await promise).shift();
+
+        expect(result?.error).toBeUndefined();
+        expect(result?.timedOut).toBeFalsy();
+    });
+
+    it("Polling mode error status", async () => {
+        await init("polling");
+        const transferTx = await symbolService.createTransferTx(
+            signerAccount.publicAccount,
+            targetAccount.address,
+            new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(1000000000000)),
+            "listener",
+        );
+        simulator.config.auto_mining = true;
+        const result = await SymbolTest.doAggregateTx([ transferTx ], signerAccount, []);
+
+        expect(result?.error).toBe("Received error status: Failure_Core_Insufficient_Balance");
+    });
+
+});
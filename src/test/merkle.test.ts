@@ -0,0 +1,118 @@
+import {BinMetadataEntry, MerkleProof} from "../libs";
+import {SymbolService} from "../services";
+import {Convert, MerkleStateInfo, MerkleTree, MetadataType, NetworkType, PublicAccount} from "symbol-sdk";
+import {sha3_256} from "js-sha3";
+
+
+// Build merkle path fixture (root branch -> branch -> leaf) in the raw format of REST API.
+const buildFixture = (entry: BinMetadataEntry, subCacheIndex: number = MerkleProof.METADATA_SUB_CACHE_INDEX) => {
+    const hash = (data: Uint8Array) => sha3_256.create().update(data).hex().toUpperCase();
+    const keyPath = hash(Convert.hexToUint8(entry.compositeHash));
+
+    const packPath = (nibbles: string) => Convert.hexToUint8(nibbles.length % 2 ? nibbles + "0" : nibbles);
+    const encodePath = (nibbles: string, isLeaf: boolean) => {
+        const flag = (isLeaf ? 0x2 : 0) | (nibbles.length % 2 ? 0x1 : 0);
+        return Convert.hexToUint8(flag.toString(16) + (nibbles.length % 2 ? nibbles : "0" + nibbles));
+    };
+    const buildLeaf = (nibbles: string, value: string) => ({
+        raw: "FF" + nibbles.length.toString(16).padStart(2, "0") + Convert.uint8ToHex(packPath(nibbles)) + value,
+        hash: hash(Convert.hexToUint8(Convert.uint8ToHex(encodePath(nibbles, true)) + value)),
+    });
+    const buildBranch = (nibbles: string, links: Map<number, string>) => {
+        const mask = [ ...links.keys() ].reduce((acc, bit) => acc | (1 << bit), 0);
+        const sortedLinks = [ ...links.entries() ].sort(([ a ], [ b ]) => a - b).map(([ , link ]) => link);
+        const allLinks = new Array(16).fill("00".repeat(32)).map((zero, bit) => links.get(bit) ?? zero);
+        return {
+            raw: "00" + nibbles.length.toString(16).padStart(2, "0") + Convert.uint8ToHex(packPath(nibbles)) +
+                Convert.uint8ToHex(new Uint8Array([ mask & 0xFF, mask >> 8 ])) + sortedLinks.join(""),
+            hash: hash(Convert.hexToUint8(Convert.uint8ToHex(encodePath(nibbles, false)) + allLinks.join(""))),
+        };
+    };
+
+    const sibling = "AB".repeat(32);
+    const leaf = buildLeaf(keyPath.substring(5), hash(entry.serialize()));
+    const child = buildBranch(keyPath.substring(3, 4), new Map([
+        [ parseInt(keyPath[4], 16), leaf.hash ],
+    ]));
+    const root = buildBranch(keyPath.substring(0, 2), new Map([
+        [ parseInt(keyPath[2], 16), child.hash ],
+        [ (parseInt(keyPath[2], 16) + 1) % 16, sibling ],
+    ]));
+    const raw = root.raw + child.raw + leaf.raw;
+    // Other sub caches
+    const roots = new Array(9).fill(0).map((_, index) => index.toString(16).repeat(64));
+    roots[subCacheIndex] = root.hash;
+
+    return {
+        leafRaw: leaf.raw,
+        merkle: new MerkleStateInfo(raw, MerkleTree.fromRaw(raw)),
+        anchor: {
+            stateHash: hash(Convert.hexToUint8(roots.join(""))),
+            stateHashSubCacheMerkleRoots: roots,
+        },
+    };
+};
+
+describe("Merkle proof", () => {
+    const networkType = NetworkType.TEST_NET;
+    const source = PublicAccount.createFromPublicKey("3B6A27BCCEB6A42D62A3A8D02A6F0D73653215771DE243A63AC048A18B59DA29", networkType);
+    const target = PublicAccount.createFromPublicKey("C5FB65CB902623D93DF2E682FFB13F99D50FAC24D5FF2A42F68C7CA1772FE8A0", networkType);
+    const key = SymbolService.generateKey("proof");
+    const createEntry = (value: string) => new BinMetadataEntry(
+        1,
+        SymbolService.calculateMetadataHash(MetadataType.Account, source.address, target.address, undefined, key),
+        source.address,
+        target.address,
+        key,
+        MetadataType.Account,
+        Convert.utf8ToUint8(value),
+    );
+    const entry = createEntry("proven value");
+    const { leafRaw, merkle, anchor } = buildFixture(entry);
+    const branchesRaw = merkle.raw.substring(0, merkle.raw.length - leafRaw.length);
+
+    it("Valid proof", async () => {
+        expect(MerkleProof.verifyMetadata(entry, merkle, anchor)).toStrictEqual({ valid: true });
+    });
+
+    it("Tampered value", async () => {
+        expect(MerkleProof.verifyMetadata(createEntry("tampered value"), merkle, anchor))
+            .toStrictEqual({ valid: false, reason: "State hash mismatched" });
+    });
+
+    it("Unanchored tree", async () => {
+        expect(MerkleProof.verifyMetadata(entry, merkle, { ...anchor, stateHash: "00".repeat(32) }))
+            .toStrictEqual({ valid: false, reason: "Block state hash mismatched" });
+
+        const roots = [ "11".repeat(32), "33".repeat(32) ];
+        const stateHash = sha3_256.create().update(Convert.hexToUint8(roots.join(""))).hex();
+        expect(MerkleProof.verifyMetadata(entry, merkle, { stateHash, stateHashSubCacheMerkleRoots: roots }))
+            .toStrictEqual({ valid: false, reason: "Root hash mismatched with sub cache merkle root #8" });
+
+        // Tree of other sub cache (e.g. mosaic)
+        const other = buildFixture(entry, 2);
+        expect(MerkleProof.verifyMetadata(entry, other.merkle, other.anchor))
+            .toStrictEqual({ valid: false, reason: "Root hash mismatched with sub cache merkle root #8" });
+    });
+
+    it("Broken path", async () => {
+        // Leaf is replaced with other one
+        const other = buildFixture(createEntry("other value"));
+        const raw = branchesRaw + other.leafRaw;
+        expect(MerkleProof.verifyMetadata(createEntry("other value"), new MerkleStateInfo(raw, MerkleTree.fromRaw(raw)), anchor))
+            .toStrictEqual({ valid: false, reason: "Link mismatched at branch #1" });
+
+        // Proof of other key
+        const otherHash = SymbolService.calculateMetadataHash(
+            MetadataType.Account, source.address, target.address, undefined, SymbolService.generateKey("other"),
+        );
+        expect(MerkleProof.verify(otherHash, entry.serialize(), merkle, anchor, MerkleProof.METADATA_SUB_CACHE_INDEX).reason)
+            .toMatch(/^Path mismatched/);
+    });
+
+    it("Leaf not found", async () => {
+        expect(MerkleProof.verifyMetadata(entry, new MerkleStateInfo(branchesRaw, MerkleTree.fromRaw(branchesRaw)), anchor))
+            .toStrictEqual({ valid: false, reason: "Leaf not found" });
+    });
+
+});
@@ -399,4 +399,74 @@ describe("Metadata", () => {
         expect(result?.error).toBeDefined();
     }, 600000);
 
+    it("Metadata delta", async () => {
+        const oldValue = Convert.utf8ToUint8("abc");
+        const newValue = Convert.utf8ToUint8("abcde");
+
+        const grow = SymbolService.calculateMetadataDelta(oldValue, newValue);
+        expect(grow.sizeDelta).toBe(2);
+        expect(grow.value).toStrictEqual(new Uint8Array([ 0, 0, 0, 0x64, 0x65 ]));
+
+        const shrink = SymbolService.calculateMetadataDelta(newValue, oldValue);
+        expect(shrink.sizeDelta).toBe(-2);
+        expect(shrink.value).toStrictEqual(grow.value);
+
+        const remove = SymbolService.calculateMetadataDelta(oldValue, new Uint8Array());
+        expect(remove.sizeDelta).toBe(-3);
+        expect(remove.value).toStrictEqual(oldValue);
+    });
+
+    it("Update account metadata", async () => {
+        const { signerAccount: sourceAccount } = await SymbolTest.getNamedAccounts();
+        const key = `update-${uuidv4()}`;
+
+        for (const value of [ "initial value", "updated", "updated longer value" ]) {
+            const tx = await symbolService.updateMetadataTx(
+                MetadataType.Account,
+                sourceAccount.publicAccount,
+                targetAccount.publicAccount,
+                undefined,
+                key,
+                value,
+            );
+            expect(tx).toBeDefined();
+            const result = await SymbolTest.doAggregateTx(tx ? [ tx ] : [], sourceAccount, [ targetAccount ]);
+            expect(result?.error).toBeUndefined();
+
+            metadata = (await symbolService.searchBinMetadata(
+                MetadataType.Account,
+                { source: sourceAccount, target: targetAccount, key }
+            )).shift();
+            expect(metadata?.metadataEntry.value).toStrictEqual(Convert.utf8ToUint8(value));
+        }
+
+        // No change
+        expect(await symbolService.updateMetadataTx(
+            MetadataType.Account,
+            sourceAccount.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            key,
+            "updated longer value",
+        )).toBeUndefined();
+
+        // Delete
+        const deleteTx = await symbolService.updateMetadataTx(
+            MetadataType.Account,
+            sourceAccount.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            key,
+            "",
+        );
+        const result = await SymbolTest.doAggregateTx(deleteTx ? [ deleteTx ] : [], sourceAccount, [ targetAccount ]);
+        expect(result?.error).toBeUndefined();
+
+        metadata = (await symbolService.searchBinMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, target: targetAccount, key }
+        )).shift();
+        expect(metadata).toBeUndefined();
+    }, 600000);
+
 });
@@ -0,0 +1,109 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Convert, MetadataType} from "symbol-sdk";
+
+
+describe("Metadata history", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let sourceAccount: Account;
+    let targetAccount: Account;
+
+    const update = async (source: Account, key: string, value: string) => {
+        const tx = await symbolService.updateMetadataTx(
+            MetadataType.Account,
+            source.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            key,
+            value,
+        );
+        const result = await SymbolTest.doAggregateTx(tx ? [ tx ] : [], source, [ targetAccount ]);
+        expect(result?.error).toBeUndefined();
+    };
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        sourceAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Apply delta", async () => {
+        const oldValue = Convert.utf8ToUint8("old value");
+        const newValue = Convert.utf8ToUint8("new");
+        const { value, sizeDelta } = SymbolService.calculateMetadataDelta(oldValue, newValue);
+
+        expect(SymbolService.applyMetadataDelta(oldValue, value, sizeDelta)).toStrictEqual(newValue);
+        expect(SymbolService.applyMetadataDelta(newValue, value, -sizeDelta)).toStrictEqual(oldValue);
+        expect(() => SymbolService.applyMetadataDelta(newValue, value, -4)).toThrow("Invalid size delta: -4");
+        expect(SymbolService.toSignedSizeDelta(65524)).toBe(-12);
+        expect(SymbolService.toSignedSizeDelta(12)).toBe(12);
+    });
+
+    it("Replay changes", async () => {
+        await update(sourceAccount, "history", "first value");
+        // Other keys and sources are not included
+        await update(sourceAccount, "other", "other value");
+        await update(targetAccount, "history", "target value");
+        await update(sourceAccount, "history", "second");
+        await update(sourceAccount, "history", "");
+        await update(sourceAccount, "history", "third value is longer");
+
+        const history = await symbolService.getMetadataHistory(
+            MetadataType.Account, sourceAccount, targetAccount, undefined, "history",
+        );
+
+        expect(history.map((entry) => Convert.uint8ToUtf8(entry.value)))
+            .toStrictEqual([ "first value", "second", "", "third value is longer" ]);
+        expect(history.map((entry) => entry.valueSizeDelta)).toStrictEqual([ 11, -5, -6, 21 ]);
+        expect(history.every((entry) => entry.signer.equals(sourceAccount.publicAccount))).toBeTruthy();
+        for (let i = 1; i < history.length; i++) {
+            expect(history[i].height.compare(history[i - 1].height)).toBeGreaterThan(0);
+        }
+
+        // Last value is the current one
+        const current = (await symbolService.searchBinMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, target: targetAccount, key: "history" },
+        )).shift();
+        expect(history[history.length - 1].value).toStrictEqual(current?.metadataEntry.value);
+        expect(new Set(history.map((entry) => entry.txHash)).size).toBe(history.length);
+    });
+
+    it("Multiple changes in an aggregate", async () => {
+        const first = SymbolService.calculateMetadataDelta(new Uint8Array(), Convert.utf8ToUint8("abc"));
+        const second = SymbolService.calculateMetadataDelta(Convert.utf8ToUint8("abc"), Convert.utf8ToUint8("abcdef"));
+        const txs = await Promise.all([ first, second ].map(({ value, sizeDelta }) => symbolService.createMetadataTx(
+            MetadataType.Account,
+            sourceAccount.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            "aggregate",
+            value,
+            sizeDelta,
+        )));
+        const result = await SymbolTest.doAggregateTx(txs, sourceAccount, [ targetAccount ]);
+        expect(result?.error).toBeUndefined();
+
+        // Small page size to fetch several pages
+        const history = await symbolService.getMetadataHistory(
+            MetadataType.Account, sourceAccount.address, targetAccount.address, undefined, "aggregate", 2,
+        );
+
+        expect(history.map((entry) => Convert.uint8ToUtf8(entry.value))).toStrictEqual([ "abc", "abcdef" ]);
+        expect(history[0].txHash).toBe(history[1].txHash);
+    });
+
+    it("Never set", async () => {
+        expect(await symbolService.getMetadataHistory(
+            MetadataType.Account, sourceAccount, targetAccount, undefined, "never",
+        )).toStrictEqual([]);
+    });
+
+});
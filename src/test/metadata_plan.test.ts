@@ -0,0 +1,121 @@
+import {SymbolTest} from "./utils";
+import {DesiredMetadata, MetadataPlanService, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Convert, MetadataType, MosaicId, UInt64} from "symbol-sdk";
+
+
+describe("Metadata plan", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let planService: MetadataPlanService;
+    let sourceAccount: Account;
+    let targetAccount: Account;
+    let mosaicId: MosaicId;
+
+    const desired = (config: string, mosaicName: string): DesiredMetadata[] => [
+        { type: MetadataType.Account, target: sourceAccount.publicAccount, key: "config", value: config },
+        { type: MetadataType.Account, target: targetAccount.publicAccount, key: "trust", value: "high" },
+        { type: MetadataType.Mosaic, target: sourceAccount.publicAccount, targetId: mosaicId, key: "name", value: mosaicName },
+    ];
+
+    const getValue = (key: string) => simulator.getMetadata(SymbolService.calculateMetadataHash(
+        MetadataType.Account, sourceAccount.address, sourceAccount.address, undefined, SymbolService.generateKey(key),
+    ))?.value;
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        planService = new MetadataPlanService(symbolService);
+        sourceAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+
+        const mosaicDefinition = await symbolService.createMosaicDefinitionTx(
+            sourceAccount.publicAccount, UInt64.fromUint(0), 0, 100,
+        );
+        mosaicId = mosaicDefinition.mosaicId;
+        const result = await SymbolTest.doAggregateTx(mosaicDefinition.txs, sourceAccount, []);
+        expect(result?.error).toBeUndefined();
+
+        // Undeclared entry
+        const tx = await symbolService.createMetadataTx(
+            MetadataType.Account, sourceAccount.publicAccount, sourceAccount.publicAccount, undefined, "legacy", "legacy",
+        );
+        expect((await SymbolTest.doAggregateTx([ tx ], sourceAccount, []))?.error).toBeUndefined();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Plan and apply", async () => {
+        const plan = await planService.plan(sourceAccount.publicAccount, desired("v1", "Token"));
+
+        expect(plan.items.map((item) => [ item.action, item.keyName ])).toStrictEqual([
+            [ "create", "config" ],
+            [ "create", "trust" ],
+            [ "create", "name" ],
+            [ "delete", undefined ],
+        ]);
+        expect(plan.batches).toBe(1);
+        expect(plan.maxFee.compact()).toBeGreaterThan(0);
+
+        const lines = MetadataPlanService.format(plan).split("\n");
+        expect(lines[0]).toBe(`  + account ${sourceAccount.address.plain()} key=config: "v1"`);
+        expect(lines[2]).toBe(`  + mosaic ${sourceAccount.address.plain()} ${mosaicId.toHex()} key=name: "Token"`);
+        expect(lines[3]).toBe(
+            `  - account ${sourceAccount.address.plain()} key=${SymbolService.generateKey("legacy").toHex()}: "legacy"`
+        );
+        expect(lines[4]).toBe("Plan: 3 to create, 0 to update, 1 to delete.");
+        expect(lines[5]).toMatch(/^Estimated max fee: \d+(\.\d+)? symbol\.xym \(1 batches\)$/);
+
+        expect(await planService.apply(plan, sourceAccount, [ targetAccount ])).toBeUndefined();
+        expect(getValue("config")).toStrictEqual(Convert.utf8ToUint8("v1"));
+        expect(getValue("legacy")).toBeUndefined();
+
+        // Converged
+        const nextPlan = await planService.plan(sourceAccount.publicAccount, desired("v1", "Token"));
+        expect(nextPlan.items).toHaveLength(0);
+        expect(MetadataPlanService.format(nextPlan)).toBe("Plan: 0 to create, 0 to update, 0 to delete.");
+    });
+
+    it("Update and delete", async () => {
+        const declaration = desired("version 2", "Token");
+        // Binary value and deletion
+        declaration[1] = { ...declaration[1], value: new Uint8Array() };
+        declaration.push({
+            type: MetadataType.Account, target: sourceAccount.publicAccount, key: "binary", value: new Uint8Array([ 0, 1, 2 ]),
+        });
+        const plan = await planService.plan(sourceAccount.publicAccount, declaration);
+
+        expect(plan.items.map((item) => item.action)).toStrictEqual([ "update", "delete", "create" ]);
+        expect(MetadataPlanService.format(plan).split("\n").slice(0, 3)).toStrictEqual([
+            `  ~ account ${sourceAccount.address.plain()} key=config: "v1" -> "version 2"`,
+            `  - account ${targetAccount.address.plain()} key=trust: "high"`,
+            `  + account ${sourceAccount.address.plain()} key=binary: 0x000102`,
+        ]);
+
+        expect(await planService.apply(plan, sourceAccount, [ targetAccount ])).toBeUndefined();
+        expect(getValue("config")).toStrictEqual(Convert.utf8ToUint8("version 2"));
+        expect((await planService.plan(sourceAccount.publicAccount, declaration)).items).toHaveLength(0);
+    });
+
+    it("Outdated plan", async () => {
+        const plan = await planService.plan(sourceAccount.publicAccount, desired("version 3", "Token"), { prune: false });
+
+        // Changed behind the plan
+        const tx = await symbolService.updateMetadataTx(
+            MetadataType.Account, sourceAccount.publicAccount, sourceAccount.publicAccount, undefined, "config", "other",
+        );
+        expect((await SymbolTest.doAggregateTx(tx ? [ tx ] : [], sourceAccount, []))?.error).toBeUndefined();
+
+        await expect(planService.apply(plan, sourceAccount, [ targetAccount ])).rejects.toThrow("Plan is outdated");
+        await expect(planService.apply(plan, targetAccount)).rejects.toThrow("Signer must be the source of the plan");
+    });
+
+    it("Duplicated declaration", async () => {
+        const declaration = desired("v1", "Token");
+        await expect(planService.plan(sourceAccount.publicAccount, [ ...declaration, declaration[0] ]))
+            .rejects.toThrow("Duplicated declaration: config");
+    });
+
+});
@@ -0,0 +1,120 @@
+import {SymbolTest} from "./utils";
+import {MetadataCodecs, MetadataRegistry, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Convert, InnerTransaction, MetadataType, NetworkType, UInt64} from "symbol-sdk";
+
+
+describe("Metadata registry", () => {
+    const networkType = NetworkType.TEST_NET;
+    const symbolService = new SymbolService({ node_url: "http://localhost:3000" });
+
+    it("Codecs round trip", async () => {
+        const address = Account.generateNewAccount(networkType).address;
+
+        expect(MetadataCodecs.utf8.decode(MetadataCodecs.utf8.encode("日本語"))).toBe("日本語");
+        expect(MetadataCodecs.json.decode(MetadataCodecs.json.encode({ a: [ 1, "b" ] }))).toStrictEqual({ a: [ 1, "b" ] });
+        expect(MetadataCodecs.integer.decode(MetadataCodecs.integer.encode(-123))).toBe(-123);
+        expect(MetadataCodecs.boolean.decode(MetadataCodecs.boolean.encode(true))).toBe(true);
+        expect(MetadataCodecs.uint64.decode(MetadataCodecs.uint64.encode(UInt64.fromNumericString("18446744073709551615")))
+            .toString()).toBe("18446744073709551615");
+        expect(MetadataCodecs.address.decode(MetadataCodecs.address.encode(address)).equals(address)).toBeTruthy();
+    });
+
+    it("Encrypted codec", async () => {
+        const alice = Account.generateNewAccount(networkType);
+        const bob = Account.generateNewAccount(networkType);
+        const plain = new Uint8Array([ 1, 2, 3, 4, 5 ]);
+        const encrypted = MetadataCodecs.encrypted(alice, bob.publicAccount).encode(plain);
+
+        expect(encrypted).not.toStrictEqual(plain);
+        expect(MetadataCodecs.encrypted(bob, alice.publicAccount).decode(encrypted)).toStrictEqual(plain);
+        expect(() => MetadataCodecs.encrypted(bob, Account.generateNewAccount(networkType).publicAccount).decode(encrypted))
+            .toThrow("Failed to decrypt");
+    });
+
+    it("Malformed values", async () => {
+        const registry = new MetadataRegistry(symbolService)
+            .register("age", MetadataCodecs.integer)
+            .register("active", MetadataCodecs.boolean)
+            .register("balance", MetadataCodecs.uint64)
+            .register("owner", MetadataCodecs.address)
+            .register("profile", MetadataCodecs.json)
+            .register("name", MetadataCodecs.utf8);
+
+        expect(() => registry.decode("age", Convert.utf8ToUint8("1.5"))).toThrow('Malformed value of "age": Invalid integer: 1.5');
+        expect(() => registry.decode("active", Convert.utf8ToUint8("yes"))).toThrow("Invalid boolean: yes");
+        expect(() => registry.decode("balance", Convert.utf8ToUint8("18446744073709551616"))).toThrow("Invalid UInt64");
+        expect(() => registry.decode("owner", Convert.utf8ToUint8("ABC"))).toThrow("Invalid address: ABC");
+        expect(() => registry.decode("profile", Convert.utf8ToUint8("{"))).toThrow("Invalid JSON");
+        expect(() => registry.decode("name", new Uint8Array([ 0xFF, 0xFE ]))).toThrow("Invalid UTF-8 sequence");
+    });
+
+    it("Registration", async () => {
+        const registry = new MetadataRegistry(symbolService)
+            .register("age", MetadataCodecs.integer);
+
+        expect(registry.encode("age", 20)).toStrictEqual(Convert.utf8ToUint8("20"));
+        expect(() => registry.register("age", MetadataCodecs.utf8)).toThrow('Key "age" conflicts with registered key "age"');
+        expect(() => (registry as MetadataRegistry<any>).getCodec("unknown")).toThrow('Key "unknown" is not registered');
+        expect(() => registry.encode("age", 1.5)).toThrow("Not a safe integer: 1.5");
+    });
+
+});
+
+describe("Metadata registry on chain", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let sourceAccount: Account;
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        sourceAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Set, get and list", async () => {
+        const registry = new MetadataRegistry(symbolService)
+            .register("name", MetadataCodecs.utf8)
+            .register("age", MetadataCodecs.integer)
+            .register("owner", MetadataCodecs.address);
+        const set = async (txs: (InnerTransaction | undefined)[]) => {
+            const result = await SymbolTest.doAggregateTx(
+                txs.filter((tx): tx is InnerTransaction => !!tx), sourceAccount, [],
+            );
+            expect(result?.error).toBeUndefined();
+        };
+        const account = sourceAccount.publicAccount;
+
+        await set([
+            await registry.set(MetadataType.Account, account, account, undefined, "name", "Alice"),
+            await registry.set(MetadataType.Account, account, account, undefined, "age", 20),
+            await registry.set(MetadataType.Account, account, account, undefined, "owner", sourceAccount.address),
+        ]);
+        await set([ await registry.set(MetadataType.Account, account, account, undefined, "age", 21) ]);
+
+        expect(await registry.get(MetadataType.Account, sourceAccount, sourceAccount, undefined, "age")).toBe(21);
+        expect(await registry.set(MetadataType.Account, account, account, undefined, "age", 21)).toBeUndefined();
+
+        const values = await registry.list(MetadataType.Account, sourceAccount, sourceAccount);
+        expect(values.name).toBe("Alice");
+        expect(values.age).toBe(21);
+        expect(values.owner?.equals(sourceAccount.address)).toBeTruthy();
+    });
+
+    it("Malformed on-chain value", async () => {
+        const tx = await symbolService.createMetadataTx(
+            MetadataType.Account, sourceAccount.publicAccount, sourceAccount.publicAccount, undefined, "flag", "maybe",
+        );
+        const result = await SymbolTest.doAggregateTx([ tx ], sourceAccount, []);
+        expect(result?.error).toBeUndefined();
+
+        const registry = new MetadataRegistry(symbolService).register("flag", MetadataCodecs.boolean);
+        await expect(registry.get(MetadataType.Account, sourceAccount, sourceAccount, undefined, "flag"))
+            .rejects.toThrow('Malformed value of "flag": Invalid boolean: maybe');
+    });
+
+});
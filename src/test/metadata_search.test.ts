@@ -0,0 +1,125 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Convert, InnerTransaction, Metadata, MetadataType, Order} from "symbol-sdk";
+
+
+describe("Iterate metadata", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let sourceAccount: Account;
+    const numEntries = 25;
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        sourceAccount = await SymbolTest.generateFundedAccount();
+
+        const txs = new Array<InnerTransaction>();
+        for (let i = 0; i < numEntries; i++) {
+            txs.push(await symbolService.createMetadataTx(
+                MetadataType.Account,
+                sourceAccount.publicAccount,
+                sourceAccount.publicAccount,
+                undefined,
+                `key${i}`,
+                `value${i}`,
+            ));
+        }
+        const errors = await symbolService.executeBatches(
+            await symbolService.buildSignedAggregateCompleteTxBatches(txs, sourceAccount),
+            sourceAccount,
+        );
+        expect(errors).toBeUndefined();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    const collect = async (iterable: AsyncIterable<Metadata>, limit?: number) => {
+        const values = new Array<string>();
+        for await (const metadata of iterable) {
+            values.push(metadata.metadataEntry.value);
+            if (values.length === limit) {
+                break;
+            }
+        }
+        return values;
+    };
+
+    it("All pages", async () => {
+        const values = await collect(symbolService.iterateMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, target: sourceAccount },
+            { pageSize: 10 },
+        ));
+
+        expect(values).toStrictEqual([ ...new Array(numEntries).keys() ].map((i) => `value${i}`));
+    });
+
+    it("Order", async () => {
+        const values = await collect(symbolService.iterateMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, target: sourceAccount },
+            { pageSize: 10, order: Order.Desc },
+        ));
+
+        expect(values).toStrictEqual([ ...new Array(numEntries).keys() ].reverse().map((i) => `value${i}`));
+    });
+
+    it("Early termination and resume", async () => {
+        const iterable = symbolService.iterateMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, target: sourceAccount },
+            { pageSize: 10 },
+        );
+        let lastId = "";
+        const values = new Array<string>();
+        for await (const metadata of iterable) {
+            values.push(metadata.metadataEntry.value);
+            lastId = metadata.id;
+            if (values.length === 12) {
+                break;
+            }
+        }
+
+        expect(values).toHaveLength(12);
+
+        const rest = await collect(symbolService.iterateMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, target: sourceAccount },
+            { pageSize: 10, offset: lastId },
+        ));
+
+        expect([ ...values, ...rest ]).toStrictEqual([ ...new Array(numEntries).keys() ].map((i) => `value${i}`));
+    });
+
+    it("Same as searchMetadata", async () => {
+        const values = await collect(symbolService.iterateMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, key: "key3" },
+        ));
+        const metadataPool = await symbolService.searchMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, key: "key3" },
+        );
+
+        expect(values).toStrictEqual(metadataPool.map((metadata) => metadata.metadataEntry.value));
+        expect(values).toStrictEqual([ "value3" ]);
+    });
+
+    it("Binary metadata", async () => {
+        const values = new Array<string>();
+        for await (const metadata of symbolService.iterateBinMetadata(
+            MetadataType.Account,
+            { source: sourceAccount, target: sourceAccount },
+            { pageSize: 7, order: Order.Desc },
+        )) {
+            values.push(Convert.uint8ToUtf8(metadata.metadataEntry.value));
+        }
+
+        expect(values).toStrictEqual([ ...new Array(numEntries).keys() ].reverse().map((i) => `value${i}`));
+    });
+
+});
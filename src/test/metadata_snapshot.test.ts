@@ -0,0 +1,177 @@
+import {SymbolTest} from "./utils";
+import {MetadataSnapshot, MetadataSnapshotService, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Convert, MetadataType, MosaicId, UInt64} from "symbol-sdk";
+
+
+describe("Metadata snapshot", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let snapshotService: MetadataSnapshotService;
+    let ownerAccount: Account;
+    let peerAccount: Account;
+    let newOwnerAccount: Account;
+    let snapshot: MetadataSnapshot;
+    let mosaicId: MosaicId;
+    let newMosaicId: MosaicId;
+
+    const defineMosaic = async (creator: Account) => {
+        const { txs, mosaicId } = await symbolService.createMosaicDefinitionTx(
+            creator.publicAccount, UInt64.fromUint(0), 0, 100,
+        );
+        const result = await SymbolTest.doAggregateTx(txs, creator, []);
+        expect(result?.error).toBeUndefined();
+        return mosaicId;
+    };
+
+    const store = async (
+        type: MetadataType,
+        source: Account,
+        target: Account,
+        targetId: undefined | MosaicId,
+        key: string,
+        value: string,
+    ) => {
+        const tx = await symbolService.updateMetadataTx(
+            type, source.publicAccount, target.publicAccount, targetId, key, value,
+        );
+        const result = await SymbolTest.doAggregateTx(tx ? [ tx ] : [], source, [ target ]);
+        expect(result?.error).toBeUndefined();
+    };
+
+    const restoreOptions = () => ({
+        addresses: { [ownerAccount.address.plain()]: newOwnerAccount.address },
+        targetIds: { [mosaicId.toHex()]: newMosaicId },
+    });
+
+    const restore = async (signer: Account, cosigners: Account[], txCount: number) => {
+        const txs = await snapshotService.createRestoreTxs(
+            snapshot,
+            [ signer, ...cosigners ].map((account) => account.publicAccount),
+            restoreOptions(),
+        );
+        expect(txs).toHaveLength(txCount);
+
+        const batches = await snapshotService.restore(snapshot, signer, cosigners, restoreOptions());
+        if (batches.length) {
+            expect(await symbolService.executeBatches(batches, signer)).toBeUndefined();
+        }
+    };
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        snapshotService = new MetadataSnapshotService(symbolService);
+        ownerAccount = await SymbolTest.generateFundedAccount();
+        peerAccount = await SymbolTest.generateFundedAccount();
+        newOwnerAccount = await SymbolTest.generateFundedAccount();
+        mosaicId = await defineMosaic(ownerAccount);
+        newMosaicId = await defineMosaic(newOwnerAccount);
+
+        await store(MetadataType.Account, ownerAccount, ownerAccount, undefined, "name", "owner");
+        await store(MetadataType.Account, peerAccount, ownerAccount, undefined, "trust", "high");
+        await store(MetadataType.Account, ownerAccount, peerAccount, undefined, "friend", "yes");
+        await store(MetadataType.Mosaic, ownerAccount, ownerAccount, mosaicId, "description", "token");
+        // Not related to the owner
+        await store(MetadataType.Account, peerAccount, peerAccount, undefined, "name", "peer");
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Create snapshot", async () => {
+        snapshot = await snapshotService.createSnapshot(ownerAccount);
+
+        expect(snapshot.address).toBe(ownerAccount.address.plain());
+        expect(snapshot.entries).toHaveLength(4);
+        const mosaicEntry = snapshot.entries.find((entry) => entry.type === MetadataType.Mosaic);
+        expect(mosaicEntry).toStrictEqual({
+            compositeHash: SymbolService.calculateMetadataHash(
+                MetadataType.Mosaic,
+                ownerAccount.address,
+                ownerAccount.address,
+                mosaicId,
+                SymbolService.generateKey("description"),
+            ),
+            type: MetadataType.Mosaic,
+            sourceAddress: ownerAccount.address.plain(),
+            targetAddress: ownerAccount.address.plain(),
+            scopedMetadataKey: SymbolService.generateKey("description").toHex(),
+            targetId: mosaicId.toHex(),
+            value: Convert.uint8ToHex(Convert.utf8ToUint8("token")),
+        });
+
+        const json = MetadataSnapshotService.stringify(snapshot);
+        expect(MetadataSnapshotService.parse(json)).toStrictEqual(snapshot);
+    });
+
+    it("Parse errors", async () => {
+        expect(() => MetadataSnapshotService.parse("{")).toThrow("Malformed snapshot");
+        expect(() => MetadataSnapshotService.parse(JSON.stringify({ ...snapshot, version: "0.1" })))
+            .toThrow("Version mismatched: 0.1");
+
+        const tampered = {
+            ...snapshot,
+            entries: snapshot.entries.map((entry, index) => index ? entry : { ...entry, scopedMetadataKey: "0000000000000001" }),
+        };
+        expect(() => MetadataSnapshotService.parse(JSON.stringify(tampered)))
+            .toThrow(`Composite hash mismatched: ${snapshot.entries[0].compositeHash}`);
+    });
+
+    it("Public accounts are required", async () => {
+        await expect(snapshotService.createRestoreTxs(snapshot, [ newOwnerAccount.publicAccount ], restoreOptions()))
+            .rejects.toThrow(`Public account of ${peerAccount.address.plain()} is required`);
+    });
+
+    it("Restore onto other account", async () => {
+        // Stale entries of the new owner
+        await store(MetadataType.Account, newOwnerAccount, newOwnerAccount, undefined, "name", "stale name");
+        await store(MetadataType.Account, newOwnerAccount, newOwnerAccount, undefined, "obsolete", "obsolete");
+
+        // 2 updates/deletions of stale entries and 3 creations
+        await restore(newOwnerAccount, [ peerAccount ], 5);
+
+        const restored = await snapshotService.createSnapshot(newOwnerAccount);
+        // Compare entries with the owner address replaced
+        const normalize = (entries: MetadataSnapshot["entries"], owner: Account) => entries
+            .map(({ type, sourceAddress, targetAddress, scopedMetadataKey, value }) => JSON.stringify({
+                type,
+                sourceAddress: sourceAddress === owner.address.plain() ? "owner" : sourceAddress,
+                targetAddress: targetAddress === owner.address.plain() ? "owner" : targetAddress,
+                scopedMetadataKey,
+                value,
+            }))
+            .sort();
+        expect(normalize(restored.entries, newOwnerAccount)).toStrictEqual(normalize(snapshot.entries, ownerAccount));
+        expect(restored.entries.find((entry) => entry.type === MetadataType.Mosaic)?.targetId).toBe(newMosaicId.toHex());
+
+        // Nothing to do any more
+        await restore(newOwnerAccount, [ peerAccount ], 0);
+    });
+
+    it("Restore without pruning", async () => {
+        await store(MetadataType.Account, newOwnerAccount, newOwnerAccount, undefined, "extra", "extra");
+
+        const txs = await snapshotService.createRestoreTxs(
+            snapshot,
+            [ newOwnerAccount.publicAccount, peerAccount.publicAccount ],
+            { ...restoreOptions(), prune: false },
+        );
+        expect(txs).toHaveLength(0);
+    });
+
+    it("Keep third party metadata on pruning", async () => {
+        const strangerAccount = await SymbolTest.generateFundedAccount();
+        await store(MetadataType.Account, strangerAccount, newOwnerAccount, undefined, "stranger", "hello");
+
+        const txs = await snapshotService.createRestoreTxs(
+            snapshot,
+            [ newOwnerAccount.publicAccount, peerAccount.publicAccount ],
+            restoreOptions(),
+        );
+        // Only "extra" is deleted
+        expect(txs).toHaveLength(1);
+    });
+
+});
@@ -0,0 +1,101 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, AccountMetadataTransaction, Convert, MetadataType, MosaicId, MosaicMetadataTransaction, UInt64} from "symbol-sdk";
+
+
+describe("Update metadata", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let sourceAccount: Account;
+    let targetAccount: Account;
+
+    const getValue = (key: string, targetId?: MosaicId) =>
+        simulator.getMetadata(SymbolService.calculateMetadataHash(
+            targetId ? MetadataType.Mosaic : MetadataType.Account,
+            sourceAccount.address,
+            targetAccount.address,
+            targetId,
+            SymbolService.generateKey(key),
+        ))?.value;
+
+    const update = async (key: string, value: string) => {
+        const tx = await symbolService.updateMetadataTx(
+            MetadataType.Account,
+            sourceAccount.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            key,
+            value,
+        );
+        if (tx) {
+            const result = await SymbolTest.doAggregateTx([ tx ], sourceAccount, [ targetAccount ]);
+            expect(result?.error).toBeUndefined();
+        }
+        return tx as AccountMetadataTransaction | undefined;
+    };
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        sourceAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Create, update, shrink and delete", async () => {
+        const created = await update("update1", "initial");
+        expect(created?.valueSizeDelta).toBe(7);
+        expect(created?.value).toStrictEqual(Convert.utf8ToUint8("initial"));
+        expect(getValue("update1")).toStrictEqual(Convert.utf8ToUint8("initial"));
+
+        // Same size
+        const updated = await update("update1", "updated");
+        expect(updated?.valueSizeDelta).toBe(0);
+        expect(getValue("update1")).toStrictEqual(Convert.utf8ToUint8("updated"));
+
+        const grown = await update("update1", "updated longer value");
+        expect(grown?.valueSizeDelta).toBe(13);
+        expect(getValue("update1")).toStrictEqual(Convert.utf8ToUint8("updated longer value"));
+
+        const shrunk = await update("update1", "short");
+        expect(shrunk?.valueSizeDelta).toBe(-15);
+        // XOR of the longer value
+        expect(shrunk?.value).toHaveLength(20);
+        expect(getValue("update1")).toStrictEqual(Convert.utf8ToUint8("short"));
+
+        // No change
+        expect(await update("update1", "short")).toBeUndefined();
+
+        const deleted = await update("update1", "");
+        expect(deleted?.valueSizeDelta).toBe(-5);
+        expect(getValue("update1")).toBeUndefined();
+    });
+
+    it("Mosaic metadata with string target ID", async () => {
+        const { txs, mosaicId } = await symbolService.createMosaicDefinitionTx(
+            targetAccount.publicAccount, UInt64.fromUint(0), 0, 1,
+        );
+        let result = await SymbolTest.doAggregateTx(txs, targetAccount, []);
+        expect(result?.error).toBeUndefined();
+
+        for (const value of [ "mosaic value", "mosaic" ]) {
+            const tx = await symbolService.updateMetadataTx(
+                MetadataType.Mosaic,
+                sourceAccount.publicAccount,
+                targetAccount.publicAccount,
+                mosaicId.toHex(),
+                "update2",
+                value,
+            );
+            expect(tx).toBeInstanceOf(MosaicMetadataTransaction);
+            result = await SymbolTest.doAggregateTx(tx ? [ tx ] : [], sourceAccount, [ targetAccount ]);
+            expect(result?.error).toBeUndefined();
+            expect(getValue("update2", mosaicId)).toStrictEqual(Convert.utf8ToUint8(value));
+        }
+    });
+
+});
@@ -0,0 +1,145 @@
+import {SymbolTest} from "./utils";
+import {MetadataChange, MetadataWatchService, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, Convert, MetadataType} from "symbol-sdk";
+import {Subscription} from "rxjs";
+
+
+describe("Watch metadata", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let watchService: MetadataWatchService;
+    let sourceAccount: Account;
+    let targetAccount: Account;
+    let changes: MetadataChange[];
+    let subscription: Subscription | undefined;
+
+    const sleep = (msecs: number) => new Promise((resolve) => setTimeout(resolve, msecs));
+
+    const waitForChanges = async (count: number) => {
+        for (let i = 0; i < 100 && changes.length < count; i++) {
+            await sleep(50);
+        }
+        return changes;
+    };
+
+    const update = async (key: string, value: string) => {
+        const tx = await symbolService.updateMetadataTx(
+            MetadataType.Account,
+            sourceAccount.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            key,
+            value,
+        );
+        const result = await SymbolTest.doAggregateTx(tx ? [ tx ] : [], sourceAccount, [ targetAccount ]);
+        expect(result?.error).toBeUndefined();
+    };
+
+    const init = async (mode: "websocket" | "polling") => {
+        symbolService = SymbolTest.initSimulator({ listener_mode: mode, polling_interval_secs: 0.1 });
+        simulator = SymbolTest.simulator;
+        watchService = new MetadataWatchService(symbolService);
+        sourceAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+    };
+
+    beforeEach(() => {
+        changes = [];
+    });
+
+    afterEach(() => {
+        subscription?.unsubscribe();
+        subscription = undefined;
+        simulator.stop();
+    });
+
+    it("Create, update and delete", async () => {
+        await init("websocket");
+        subscription = watchService.watch(targetAccount.address).subscribe((change) => changes.push(change));
+        await sleep(100);
+
+        await update("watch1", "first");
+        await update("watch1", "second value");
+        await update("watch1", "");
+        await waitForChanges(3);
+
+        expect(changes).toHaveLength(3);
+        expect(changes[0].compositeHash).toBe(SymbolService.calculateMetadataHash(
+            MetadataType.Account,
+            sourceAccount.address,
+            targetAccount.address,
+            undefined,
+            SymbolService.generateKey("watch1"),
+        ));
+        expect(changes[0].sourceAddress.equals(sourceAccount.address)).toBeTruthy();
+        expect(changes[0].valueSizeDelta).toBe(5);
+        // The value is fetched when notified
+        expect(changes[1].value).toBeDefined();
+        expect(changes[2].value).toBeUndefined();
+        expect(changes[2].valueSizeDelta).toBe(-12);
+    });
+
+    it("Filter by key", async () => {
+        await init("websocket");
+        subscription = watchService.watch(sourceAccount.address, { type: MetadataType.Account, key: "watch3" })
+            .subscribe((change) => changes.push(change));
+        await sleep(100);
+
+        await update("watch2", "ignored");
+        await update("watch3", "notified");
+        await waitForChanges(1);
+        await sleep(200);
+
+        expect(changes).toHaveLength(1);
+        expect(changes[0].value).toStrictEqual(Convert.utf8ToUint8("notified"));
+    });
+
+    it("Polling mode", async () => {
+        await init("polling");
+        subscription = watchService.watch(targetAccount.address).subscribe((change) => changes.push(change));
+        await sleep(100);
+
+        await update("watch4", "polled");
+        await waitForChanges(1);
+        await sleep(300);
+
+        expect(changes).toHaveLength(1);
+        expect(changes[0].value).toStrictEqual(Convert.utf8ToUint8("polled"));
+    });
+
+    it("Unsubscribe immediately", async () => {
+        await init("websocket");
+        watchService.watch(targetAccount.address).subscribe((change) => changes.push(change)).unsubscribe();
+
+        // Unsubscribe while the listener is opening
+        let opening: Subscription | undefined;
+        const createListener = simulator.createListener.bind(simulator);
+        simulator.createListener = (nodeUrl?: string) => {
+            opening?.unsubscribe();
+            return createListener(nodeUrl);
+        };
+        opening = watchService.watch(targetAccount.address).subscribe((change) => changes.push(change));
+        await sleep(200);
+
+        expect(simulator.numOpenListeners).toBe(0);
+        await update("watch6", "unwatched");
+        await sleep(200);
+        expect(changes).toHaveLength(0);
+    });
+
+    it("Catch up after disconnection", async () => {
+        await init("websocket");
+        symbolService.config.reconnect_interval_secs = 0.1;
+        subscription = watchService.watch(targetAccount.address).subscribe((change) => changes.push(change));
+        await sleep(100);
+
+        simulator.disconnectListeners();
+        await update("watch5", "missed");
+        await waitForChanges(1);
+
+        expect(changes).toHaveLength(1);
+        expect(changes[0].value).toStrictEqual(Convert.utf8ToUint8("missed"));
+    });
+
+});
@@ -0,0 +1,120 @@
+import {SymbolTest} from "./utils";
+import {MosaicService, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, InnerTransaction, Mosaic, MosaicId, UInt64} from "symbol-sdk";
+
+
+describe("Mosaic lifecycle", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let mosaicService: MosaicService;
+    let ownerAccount: Account;
+    let holderAccount: Account;
+    let mosaicId: MosaicId;
+    let immutableMosaicId: MosaicId;
+
+    const execute = async (txs: InnerTransaction[], signer: Account) => {
+        const result = await SymbolTest.doAggregateTx(txs, signer, []);
+        expect(result?.error).toBeUndefined();
+    };
+
+    const defineMosaic = async (durationBlocks: number, isSupplyMutable: boolean, isRevokable: boolean) => {
+        const { txs, mosaicId } = await symbolService.createMosaicDefinitionTx(
+            ownerAccount.publicAccount, UInt64.fromUint(durationBlocks), 0, 100, isSupplyMutable, true, false, isRevokable,
+        );
+        await execute(txs, ownerAccount);
+        return mosaicId;
+    };
+
+    const transfer = async (mosaicId: MosaicId, amount: number) => execute([
+        await symbolService.createTransferTx(
+            ownerAccount.publicAccount, holderAccount.address, new Mosaic(mosaicId, UInt64.fromUint(amount)), "",
+        ),
+    ], ownerAccount);
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        mosaicService = new MosaicService(symbolService);
+        ownerAccount = await SymbolTest.generateFundedAccount();
+        holderAccount = await SymbolTest.generateFundedAccount();
+        mosaicId = await defineMosaic(0, true, true);
+        immutableMosaicId = await defineMosaic(0, false, false);
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Mosaic info", async () => {
+        const mosaic = await mosaicService.getMosaicInfo(mosaicId);
+
+        expect(mosaic?.ownerAddress.equals(ownerAccount.address)).toBeTruthy();
+        expect(mosaic?.supply.toString()).toBe("100");
+        expect(mosaic?.divisibility).toBe(0);
+        expect(mosaic?.supplyMutable).toBeTruthy();
+        expect(mosaic?.restrictable).toBeFalsy();
+        expect(mosaic?.revokable).toBeTruthy();
+        expect(mosaic?.expiryHeight).toBeUndefined();
+        expect(mosaic?.expired).toBeFalsy();
+
+        expect(await mosaicService.getMosaicInfo(new MosaicId("0123456789ABCDEF"))).toBeUndefined();
+    });
+
+    it("Change supply", async () => {
+        await execute([ await mosaicService.createSupplyIncreaseTx(ownerAccount.publicAccount, mosaicId, UInt64.fromUint(50)) ], ownerAccount);
+        await execute([ await mosaicService.createSupplyDecreaseTx(ownerAccount.publicAccount, mosaicId, UInt64.fromUint(30)) ], ownerAccount);
+
+        expect((await mosaicService.getMosaicInfo(mosaicId))?.supply.toString()).toBe("120");
+        expect(simulator.getBalance(ownerAccount.address, mosaicId).toString()).toBe("120");
+
+        await expect(mosaicService.createSupplyDecreaseTx(ownerAccount.publicAccount, mosaicId, UInt64.fromUint(121)))
+            .rejects.toThrow(`Supply of mosaic ${mosaicId.toHex()} held by the owner is insufficient`);
+        await expect(mosaicService.createSupplyIncreaseTx(ownerAccount.publicAccount, mosaicId, UInt64.fromNumericString("9999999999000000")))
+            .rejects.toThrow(/exceeds/);
+        await expect(mosaicService.createSupplyIncreaseTx(ownerAccount.publicAccount, mosaicId, UInt64.fromUint(0)))
+            .rejects.toThrow("Delta must be positive");
+        await expect(mosaicService.createSupplyIncreaseTx(holderAccount.publicAccount, mosaicId, UInt64.fromUint(1)))
+            .rejects.toThrow(`Mosaic ${mosaicId.toHex()} is not owned by ${holderAccount.address.plain()}`);
+    });
+
+    it("Immutable supply", async () => {
+        // Can be changed while the owner holds the entire supply
+        await execute([ await mosaicService.createSupplyIncreaseTx(ownerAccount.publicAccount, immutableMosaicId, UInt64.fromUint(10)) ], ownerAccount);
+        await transfer(immutableMosaicId, 1);
+
+        await expect(mosaicService.createSupplyIncreaseTx(ownerAccount.publicAccount, immutableMosaicId, UInt64.fromUint(10)))
+            .rejects.toThrow(`Supply of mosaic ${immutableMosaicId.toHex()} is immutable`);
+        expect((await mosaicService.getMosaicInfo(immutableMosaicId))?.supply.toString()).toBe("110");
+    });
+
+    it("Revocation", async () => {
+        await transfer(mosaicId, 10);
+        await execute([
+            await mosaicService.createRevocationTx(ownerAccount.publicAccount, holderAccount.address, new Mosaic(mosaicId, UInt64.fromUint(4))),
+        ], ownerAccount);
+
+        expect(simulator.getBalance(holderAccount.address, mosaicId).toString()).toBe("6");
+        expect(simulator.getBalance(ownerAccount.address, mosaicId).toString()).toBe("114");
+
+        await expect(mosaicService.createRevocationTx(
+            ownerAccount.publicAccount, holderAccount.address, new Mosaic(mosaicId, UInt64.fromUint(7)),
+        )).rejects.toThrow(`Balance of ${holderAccount.address.plain()} is insufficient`);
+        await expect(mosaicService.createRevocationTx(
+            ownerAccount.publicAccount, holderAccount.address, new Mosaic(immutableMosaicId, UInt64.fromUint(1)),
+        )).rejects.toThrow(`Mosaic ${immutableMosaicId.toHex()} is not revokable`);
+    });
+
+    it("Expired mosaic", async () => {
+        const expiringMosaicId = await defineMosaic(1, true, false);
+        // Next block
+        await transfer(mosaicId, 1);
+
+        const mosaic = await mosaicService.getMosaicInfo(expiringMosaicId);
+        expect(mosaic?.expiryHeight?.equals(mosaic.startHeight.add(UInt64.fromUint(1)))).toBeTruthy();
+        expect(mosaic?.expired).toBeTruthy();
+        await expect(mosaicService.createSupplyIncreaseTx(ownerAccount.publicAccount, expiringMosaicId, UInt64.fromUint(1)))
+            .rejects.toThrow(`Mosaic ${expiringMosaicId.toHex()} is expired`);
+    });
+
+});
@@ -0,0 +1,105 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, AliasAction, InnerTransaction, Mosaic, MosaicId, NamespaceId, UInt64} from "symbol-sdk";
+
+
+describe("Namespace", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let ownerAccount: Account;
+    let otherAccount: Account;
+    let mosaicId: MosaicId;
+
+    // Emulate an object created by another copy of symbol-sdk
+    const fromOtherCopy = <T extends object>(value: T): T => Object.setPrototypeOf(
+        { ...value },
+        Object.defineProperties({}, Object.getOwnPropertyDescriptors(Object.getPrototypeOf(value))),
+    );
+
+    const execute = async (txs: InnerTransaction[], signer: Account) => {
+        const result = await SymbolTest.doAggregateTx(txs, signer, []);
+        expect(result?.error).toBeUndefined();
+    };
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        ownerAccount = await SymbolTest.generateFundedAccount();
+        otherAccount = await SymbolTest.generateFundedAccount();
+
+        const mosaicDefinition = await symbolService.createMosaicDefinitionTx(
+            ownerAccount.publicAccount, UInt64.fromUint(0), 0, 100,
+        );
+        mosaicId = mosaicDefinition.mosaicId;
+        await execute(mosaicDefinition.txs, ownerAccount);
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Register child namespaces", async () => {
+        await execute([
+            await symbolService.createNamespaceRegistrationTx(ownerAccount.publicAccount, "foo", UInt64.fromUint(86400)),
+            await symbolService.createSubNamespaceRegistrationTx(ownerAccount.publicAccount, "bar", "foo"),
+            await symbolService.createSubNamespaceRegistrationTx(ownerAccount.publicAccount, "token", new NamespaceId("foo")),
+        ], ownerAccount);
+
+        const namespaceInfo = await symbolService.getNamespaceInfo("foo.bar");
+        expect(namespaceInfo?.isSubnamespace()).toBeTruthy();
+        expect(namespaceInfo?.parentNamespaceId().equals(new NamespaceId("foo"))).toBeTruthy();
+        expect(namespaceInfo?.ownerAddress.equals(ownerAccount.address)).toBeTruthy();
+        expect(await symbolService.getNamespaceInfo("unknown")).toBeUndefined();
+    });
+
+    it("Link aliases and resolve", async () => {
+        await execute([
+            await symbolService.createAddressAliasTx(ownerAccount.publicAccount, "foo.bar", otherAccount.address),
+            await symbolService.createMosaicAliasTx(ownerAccount.publicAccount, "foo.token", mosaicId),
+            // Usable in the same aggregate
+            await symbolService.createTransferTx(
+                ownerAccount.publicAccount,
+                otherAccount.address,
+                new Mosaic(new NamespaceId("foo.token"), UInt64.fromUint(10)),
+                "",
+            ),
+        ], ownerAccount);
+
+        expect((await symbolService.getLinkedAddress("foo.bar"))?.equals(otherAccount.address)).toBeTruthy();
+        expect((await symbolService.getLinkedMosaicId("foo.token"))?.equals(mosaicId)).toBeTruthy();
+        expect(await symbolService.getLinkedMosaicId("foo.bar")).toBeUndefined();
+        expect(await symbolService.getLinkedAddress("foo")).toBeUndefined();
+        expect(await symbolService.getLinkedAddress("unknown")).toBeUndefined();
+        expect((await symbolService.resolveAddress(new NamespaceId("foo.bar"))).equals(otherAccount.address)).toBeTruthy();
+        expect(simulator.getBalance(otherAccount.address, mosaicId).toString()).toBe("10");
+        expect((await symbolService.resolveAddress(fromOtherCopy(otherAccount.address))).plain())
+            .toBe(otherAccount.address.plain());
+        expect((await symbolService.resolveMosaicId(fromOtherCopy(mosaicId))).toHex()).toBe(mosaicId.toHex());
+
+        expect(await symbolService.getAccountNames(otherAccount.address)).toStrictEqual([ "foo.bar" ]);
+        expect(await symbolService.getAccountNames(ownerAccount.address)).toStrictEqual([]);
+        expect(await symbolService.getMosaicNames(mosaicId)).toStrictEqual([ "foo.token" ]);
+        expect(await symbolService.formatMosaic(new Mosaic(mosaicId, UInt64.fromUint(5)))).toBe("5 foo.token");
+    });
+
+    it("Unlink aliases", async () => {
+        // Only the owner of the namespace can link
+        const result = await SymbolTest.doAggregateTx([
+            await symbolService.createAddressAliasTx(otherAccount.publicAccount, "foo", otherAccount.address),
+        ], otherAccount, []);
+        expect(result?.error).toBe("Received error status: Failure_Namespace_Owner_Conflict");
+
+        await execute([
+            await symbolService.createAddressAliasTx(
+                ownerAccount.publicAccount, "foo.bar", otherAccount.address, AliasAction.Unlink,
+            ),
+            await symbolService.createMosaicAliasTx(ownerAccount.publicAccount, "foo.token", mosaicId, AliasAction.Unlink),
+        ], ownerAccount);
+
+        expect(await symbolService.getLinkedAddress("foo.bar")).toBeUndefined();
+        expect(await symbolService.getMosaicNames(mosaicId)).toStrictEqual([]);
+        await expect(symbolService.resolveMosaicId(new NamespaceId("foo.token"))).rejects.toThrow();
+    });
+
+});
@@ -0,0 +1,64 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {TransactionFees} from "symbol-sdk";
+
+
+describe("Network cache", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+
+    const sleep = (msecs: number) => new Promise((resolve) => setTimeout(resolve, msecs));
+
+    afterEach(() => {
+        simulator.stop();
+    });
+
+    it("Fees TTL", async () => {
+        symbolService = SymbolTest.initSimulator({ fees_ttl_secs: 0.2 });
+        simulator = SymbolTest.simulator;
+        const changes = new Array<{ previous: TransactionFees, current: TransactionFees }>();
+        const subscription = symbolService.feeObserver.subscribe((value) => changes.push(value));
+
+        expect(await symbolService.getFeeMultiplier(1)).toBe(110);
+        simulator.config.average_fee_multiplier = 200;
+
+        // Still cached
+        expect(await symbolService.getFeeMultiplier(1)).toBe(110);
+
+        await sleep(300);
+
+        expect(await symbolService.getFeeMultiplier(1)).toBe(210);
+        expect(changes).toHaveLength(1);
+        expect(changes[0].previous.averageFeeMultiplier).toBe(100);
+        expect(changes[0].current.averageFeeMultiplier).toBe(200);
+        subscription.unsubscribe();
+    });
+
+    it("Refresh network", async () => {
+        symbolService = SymbolTest.initSimulator({ fees_ttl_secs: 0 });
+        simulator = SymbolTest.simulator;
+        const changes = new Array<{ previous: TransactionFees, current: TransactionFees }>();
+        const subscription = symbolService.feeObserver.subscribe((value) => changes.push(value));
+        const { updated_at, networkGenerationHash } = await symbolService.getNetwork();
+        simulator.config.min_fee_multiplier = 20;
+        await sleep(10);
+
+        // Never expires
+        expect(await symbolService.getFeeMultiplier(0)).toBe(10);
+
+        const network = await symbolService.refreshNetwork([ "fees" ]);
+
+        expect(await symbolService.getFeeMultiplier(0)).toBe(20);
+        expect(network.updated_at).toBeGreaterThan(updated_at);
+        expect(network.networkGenerationHash).toBe(networkGenerationHash);
+        expect(changes).toHaveLength(1);
+
+        // Not changed
+        await symbolService.refreshNetwork();
+
+        expect(changes).toHaveLength(1);
+        subscription.unsubscribe();
+    });
+
+});
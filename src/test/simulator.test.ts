@@ -0,0 +1,298 @@
+import {SymbolTest} from "./utils";
+import {NecromancyService, SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {
+    Account,
+    Convert,
+    CosignatureTransaction,
+    InnerTransaction,
+    MetadataType,
+    Mosaic,
+    MosaicId,
+    UInt64
+} from "symbol-sdk";
+import {sha3_256} from "js-sha3";
+import crypto from "crypto";
+
+
+describe("SimulatedChain", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let signerAccount: Account;
+    let targetAccount: Account;
+    let mosaicId: MosaicId;
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator();
+        simulator = SymbolTest.simulator;
+        signerAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    it("Network", async () => {
+        const { networkGenerationHash, networkCurrencyMosaicId, networkProperties } = await symbolService.getNetwork();
+
+        expect(networkGenerationHash).toBe(simulator.config.generation_hash);
+        expect(networkCurrencyMosaicId).toStrictEqual(simulator.currencyMosaicId);
+        expect(networkProperties.chain.blockGenerationTargetTime).toBe("30s");
+        expect(await symbolService.getFeeMultiplier(0)).toBe(simulator.config.min_fee_multiplier);
+    });
+
+    it("Define mosaic", async () => {
+        const mosaicDefinition = await symbolService.createMosaicDefinitionTx(
+            signerAccount.publicAccount,
+            UInt64.fromUint(0),
+            0,
+            1000,
+        );
+        const result = await SymbolTest.doAggregateTx(mosaicDefinition.txs, signerAccount, []);
+        mosaicId = mosaicDefinition.mosaicId;
+
+        expect(result?.error).toBeUndefined();
+        expect(await symbolService.getAccountBalance(signerAccount.address, mosaicId)).toStrictEqual(UInt64.fromUint(1000));
+    });
+
+    it("Transfer", async () => {
+        const balance = await symbolService.getAccountBalance(signerAccount.address, simulator.currencyMosaicId);
+        const transferTx = await symbolService.createTransferTx(
+            signerAccount.publicAccount,
+            targetAccount.address,
+            [ new Mosaic(mosaicId, UInt64.fromUint(10)), new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(1000000)) ],
+            "test1message",
+        );
+        const result = await SymbolTest.doAggregateTx([ transferTx ], signerAccount, []);
+
+        expect(result?.error).toBeUndefined();
+        expect(await symbolService.getAccountBalance(targetAccount.address, mosaicId)).toStrictEqual(UInt64.fromUint(10));
+
+        // Transfer amount and fee are withdrawn
+        const newBalance = await symbolService.getAccountBalance(signerAccount.address, simulator.currencyMosaicId);
+        expect(newBalance.compare(balance.subtract(UInt64.fromUint(1000000)))).toBeLessThan(0);
+    });
+
+    it("Insufficient balance", async () => {
+        const transferTx = await symbolService.createTransferTx(
+            targetAccount.publicAccount,
+            signerAccount.address,
+            new Mosaic(mosaicId, UInt64.fromUint(11)),
+            "test2message",
+        );
+        const result = await SymbolTest.doAggregateTx([ transferTx ], targetAccount, []);
+
+        expect(result?.error).toBe("Received error status: Failure_Core_Insufficient_Balance");
+        expect(await symbolService.getAccountBalance(targetAccount.address, mosaicId)).toStrictEqual(UInt64.fromUint(10));
+    });
+
+    it("Missing cosignature", async () => {
+        const transferTx = await symbolService.createTransferTx(
+            targetAccount.publicAccount,
+            signerAccount.address,
+            new Mosaic(mosaicId, UInt64.fromUint(1)),
+            "test3message",
+        );
+        const result = await SymbolTest.doAggregateTx([ transferTx ], signerAccount, []);
+
+        expect(result?.error).toBe("Received error status: Failure_Aggregate_Missing_Cosignatures");
+    });
+
+    it("Invalid cosignature", async () => {
+        const transferTx = await symbolService.createTransferTx(
+            targetAccount.publicAccount,
+            signerAccount.address,
+            new Mosaic(mosaicId, UInt64.fromUint(1)),
+            "test4message",
+        );
+        const aggregateTx = await symbolService.composeAggregateCompleteTx(
+            await symbolService.getFeeMultiplier(), 1, [ transferTx ],
+        );
+        const { networkGenerationHash } = await symbolService.getNetwork();
+        const signedTx = signerAccount.sign(aggregateTx, networkGenerationHash);
+        // Cosign another hash
+        const cosignature = CosignatureTransaction.signTransactionHash(targetAccount, "00".repeat(32));
+        await symbolService.announceTxWithCosignatures(signedTx, [ cosignature ]);
+        const result = (await symbolService.waitTxsFor(signerAccount, signedTx.hash)).shift();
+
+        expect(result?.error).toBe("Received error status: Failure_Signature_Not_Verifiable");
+    });
+
+    it("Execute batches", async () => {
+        const txs = new Array<InnerTransaction>();
+        for (let i = 0; i < 250; i++) {
+            txs.push(await symbolService.createTransferTx(
+                signerAccount.publicAccount,
+                targetAccount.address,
+                new Mosaic(mosaicId, UInt64.fromUint(1)),
+                `test${i}message`,
+            ));
+        }
+        let numBatches = 0;
+        const errors = await SymbolTest.doAggregateTxBatches(txs, signerAccount, [], (batches) => {
+            numBatches = batches.length;
+        });
+
+        expect(errors).toBeUndefined();
+        expect(numBatches).toBe(3);
+        expect(await symbolService.getAccountBalance(targetAccount.address, mosaicId)).toStrictEqual(UInt64.fromUint(260));
+    }, 600000);
+
+    it("Metadata", async () => {
+        const key = "test1key";
+        const value = Convert.utf8ToUint8("test1value");
+        const tx = await symbolService.createMetadataTx(
+            MetadataType.Account,
+            signerAccount.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            key,
+            value,
+        );
+
+        // Target account must cosign
+        let result = await SymbolTest.doAggregateTx([ tx ], signerAccount, []);
+        expect(result?.error).toBe("Received error status: Failure_Aggregate_Missing_Cosignatures");
+
+        result = await SymbolTest.doAggregateTx([ tx ], signerAccount, [ targetAccount ]);
+        expect(result?.error).toBeUndefined();
+
+        const metadata = (await symbolService.searchMetadata(
+            MetadataType.Account,
+            { source: signerAccount, target: targetAccount, key },
+        )).shift();
+
+        expect(metadata?.metadataEntry.value).toBe("test1value");
+
+        const compositeHash = SymbolService.calculateMetadataHash(
+            MetadataType.Account,
+            signerAccount.address,
+            targetAccount.address,
+            undefined,
+            SymbolService.generateKey(key),
+        );
+
+        expect(metadata?.metadataEntry.compositeHash).toBe(compositeHash);
+        expect((await symbolService.getMetadataByHash(compositeHash)).metadataEntry.value).toBe("test1value");
+
+        // Update (XOR with old value)
+        const newValue = Convert.utf8ToUint8("new");
+        const updateTx = await symbolService.createMetadataTx(
+            MetadataType.Account,
+            signerAccount.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            key,
+            value.map((byte, index) => byte ^ (newValue[index] || 0)),
+            newValue.length - value.length,
+        );
+        result = await SymbolTest.doAggregateTx([ updateTx ], signerAccount, [ targetAccount ]);
+
+        expect(result?.error).toBeUndefined();
+        expect(simulator.getMetadata(compositeHash)?.value).toStrictEqual(newValue);
+
+        // Delete
+        const deleteTx = await symbolService.createMetadataTx(
+            MetadataType.Account,
+            signerAccount.publicAccount,
+            targetAccount.publicAccount,
+            undefined,
+            key,
+            newValue,
+            -newValue.length,
+        );
+        result = await SymbolTest.doAggregateTx([ deleteTx ], signerAccount, [ targetAccount ]);
+
+        expect(result?.error).toBeUndefined();
+        expect(await symbolService.searchMetadata(MetadataType.Account, { target: targetAccount, key })).toHaveLength(0);
+    });
+
+    it("Mosaic metadata", async () => {
+        const tx = await symbolService.createMetadataTx(
+            MetadataType.Mosaic,
+            targetAccount.publicAccount,
+            signerAccount.publicAccount,
+            mosaicId,
+            "test2key",
+            "test2value",
+        );
+        const result = await SymbolTest.doAggregateTx([ tx ], signerAccount, [ targetAccount ]);
+
+        expect(result?.error).toBeUndefined();
+
+        const metadata = (await symbolService.searchMetadata(
+            MetadataType.Mosaic,
+            { source: targetAccount, target: signerAccount, key: "test2key", targetId: mosaicId },
+        )).shift();
+
+        expect(metadata?.metadataEntry.targetId?.toHex()).toBe(mosaicId.toHex());
+        expect(metadata?.metadataEntry.value).toBe("test2value");
+    });
+
+    it("SecretLock and SecretProof", async () => {
+        const proof = crypto.randomBytes(20);
+        const secret = Uint8Array.from(sha3_256.create().update(proof).array());
+        const secretLockTx = await symbolService.createSecretLockTx(
+            signerAccount.publicAccount,
+            targetAccount.address,
+            new Mosaic(mosaicId, UInt64.fromUint(3)),
+            UInt64.fromUint(20),
+            secret,
+        );
+        let result = await SymbolTest.doAggregateTx([ secretLockTx ], signerAccount, []);
+
+        expect(result?.error).toBeUndefined();
+
+        const wrongProofTx = await symbolService.createSecretProofTx(
+            targetAccount.publicAccount,
+            targetAccount.address,
+            secret,
+            crypto.randomBytes(20),
+        );
+        result = await SymbolTest.doAggregateTx([ wrongProofTx ], targetAccount, []);
+
+        expect(result?.error).toBe("Received error status: Failure_LockSecret_Secret_Mismatch");
+
+        const secretProofTx = await symbolService.createSecretProofTx(
+            targetAccount.publicAccount,
+            targetAccount.address,
+            secret,
+            proof,
+        );
+        result = await SymbolTest.doAggregateTx([ secretProofTx ], targetAccount, []);
+
+        expect(result?.error).toBeUndefined();
+        expect(await symbolService.getAccountBalance(targetAccount.address, mosaicId)).toStrictEqual(UInt64.fromUint(263));
+    });
+
+    it("Undead transaction", async () => {
+        const necromancyService = new NecromancyService(symbolService);
+        const undeadTx = await necromancyService.createTx(
+            24,
+            [
+                await symbolService.createTransferTx(
+                    signerAccount.publicAccount,
+                    targetAccount.address,
+                    new Mosaic(mosaicId, UInt64.fromUint(1)),
+                    "undead",
+                ),
+            ],
+            signerAccount,
+            [ targetAccount ],
+        );
+        const batches = await necromancyService.pickAndCastTxBatches([ undeadTx ]);
+        const errors = await symbolService.executeBatches(batches, signerAccount);
+
+        expect(errors).toBeUndefined();
+        expect(await symbolService.getAccountBalance(targetAccount.address, mosaicId)).toStrictEqual(UInt64.fromUint(264));
+
+        // Lock metadata prevents replay
+        const nextBatches = await necromancyService.pickAndCastTxBatches([ undeadTx ], [], -6 * 60 * 60);
+        simulator.advanceTime(6 * 60 * 60 * 1000);
+        const nextErrors = await symbolService.executeBatches(nextBatches, signerAccount);
+
+        expect(nextErrors?.shift()?.error).toBe("Received error status: Failure_Metadata_Value_Size_Delta_Mismatch");
+    }, 600000);
+
+});
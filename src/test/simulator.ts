@@ -0,0 +1,1894 @@
+import assert from "assert";
+import { sha3_256 } from "js-sha3";
+import _ from "lodash";
+import Long from "long";
+import moment from "moment";
+import { defer, filter, map, Observable, of, Subject, Subscription, throwError } from "rxjs";
+import { TransactionGroupEnum, TransactionStatusEnum } from "symbol-openapi-typescript-fetch-client";
+import {
+    AccountInfo,
+    AccountMetadataTransaction,
+    AccountNames,
+    AccountRepository,
+    AccountType,
+    ActivityBucket,
+    Address,
+    AddressAlias,
+    AddressAliasTransaction,
+    AggregateNetworkProperties,
+    AggregateTransaction,
+    AliasAction,
+    AliasType,
+    BlockInfo,
+    BlockRepository,
+    BlockType,
+    ChainProperties,
+    ChainInfo,
+    ChainRepository,
+    Convert,
+    CosignatureSignedTransaction,
+    Currency,
+    EmptyAlias,
+    FinalizationRepository,
+    FinalizedBlock,
+    HashLockRepository,
+    IListener,
+    KeyPair,
+    LockHashAlgorithm,
+    MerkleStateInfo,
+    Metadata,
+    MetadataEntry,
+    MetadataNetworkProperties,
+    MetadataRepository,
+    MetadataSearchCriteria,
+    MetadataType,
+    Mosaic,
+    MosaicAlias,
+    MosaicAliasTransaction,
+    MosaicDefinitionTransaction,
+    MosaicFlags,
+    MosaicId,
+    MosaicInfo,
+    MosaicMetadataTransaction,
+    MosaicNames,
+    MosaicNetworkProperties,
+    MosaicRepository,
+    MosaicSearchCriteria,
+    MosaicSupplyChangeAction,
+    MosaicSupplyChangeTransaction,
+    MosaicSupplyRevocationTransaction,
+    MultisigRepository,
+    NamespaceId,
+    NamespaceInfo,
+    NamespaceMetadataTransaction,
+    NamespaceName,
+    NamespaceNetworkProperties,
+    NamespaceRegistrationTransaction,
+    NamespaceRegistrationType,
+    NamespaceRepository,
+    NamespaceSearchCriteria,
+    NetworkConfiguration,
+    NetworkCurrencies,
+    NetworkName,
+    NetworkProperties,
+    NetworkRepository,
+    NetworkType,
+    NewBlock,
+    NodeRepository,
+    NormalBlockInfo,
+    Order,
+    Page,
+    PluginProperties,
+    PublicAccount,
+    ReceiptRepository,
+    RentalFees,
+    RepositoryFactory,
+    RestrictionAccountRepository,
+    RestrictionMosaicRepository,
+    SecretLockNetworkProperties,
+    SecretLockRepository,
+    SecretLockTransaction,
+    SecretProofTransaction,
+    SignedTransaction,
+    SupplementalPublicKeys,
+    Transaction,
+    TransactionAnnounceResponse,
+    TransactionFees,
+    TransactionGroup,
+    TransactionMapping,
+    TransactionRepository,
+    TransactionSearchCriteria,
+    TransactionStatus,
+    TransactionStatusError,
+    TransactionStatusRepository,
+    TransferNetworkProperties,
+    TransferTransaction,
+    UInt64,
+    UnresolvedAddress,
+    UnresolvedMosaicId,
+} from "symbol-sdk";
+import { BinMetadata, BinMetadataEntry, BinMetadataRepository, BinMetadataRepositoryFactory, Logger } from "../libs";
+
+
+export interface SimulatedChainConfig {
+    network_type: NetworkType;
+    generation_hash: string;
+    epoch_adjustment: number;
+    currency_mosaic_id: string;
+    node_public_key: string;
+    min_fee_multiplier: number;
+    average_fee_multiplier: number;
+    // Milliseconds between an announcement and the block that confirms it (when auto_mining)
+    block_interval: number;
+    auto_mining: boolean;
+}
+
+interface SimulatedAccount {
+    address: Address;
+    publicKey?: string;
+    height: UInt64;
+    // Key: Mosaic ID hex
+    balances: Map<string, Long>;
+}
+
+interface SimulatedMosaic {
+    id: MosaicId;
+    owner: Address;
+    supply: Long;
+    flags: MosaicFlags;
+    divisibility: number;
+    duration: UInt64;
+    startHeight: UInt64;
+}
+
+interface SimulatedNamespace {
+    id: NamespaceId;
+    name: string;
+    owner: Address;
+    parentId?: NamespaceId;
+    startHeight: UInt64;
+    // Zero means eternal
+    endHeight: UInt64;
+    alias?: Address | MosaicId;
+}
+
+interface SimulatedSecretLock {
+    compositeHash: string;
+    owner: Address;
+    recipient: Address;
+    mosaicId: MosaicId;
+    amount: Long;
+    endHeight: UInt64;
+    secret: string;
+    used: boolean;
+}
+
+// Everything a transaction can change. Cloned per transaction to keep aggregates atomic.
+interface SimulatedLedger {
+    accounts: Map<string, SimulatedAccount>;
+    // Key: Composite hash
+    metadata: Map<string, BinMetadataEntry>;
+    // Key: Mosaic ID hex
+    mosaics: Map<string, SimulatedMosaic>;
+    // Key: Namespace ID hex
+    namespaces: Map<string, SimulatedNamespace>;
+    // Key: Composite hash
+    secretLocks: Map<string, SimulatedSecretLock>;
+}
+
+interface SimulatedBlock {
+    height: UInt64;
+    timestamp: UInt64;
+    feeMultiplier: number;
+}
+
+interface PendingTx {
+    tx: Transaction;
+    hash: string;
+    payload: string;
+}
+
+// Thrown inside transaction execution and reported as the transaction status
+class SimulatedFailure extends Error {
+    constructor(public readonly code: string) {
+        super(code);
+    }
+}
+
+function fail(code: string): never {
+    throw new SimulatedFailure(code);
+}
+
+// Mimic error format of symbol-sdk Http repositories
+const notFound = (message: string) => throwError(() => new Error(JSON.stringify({
+    statusCode: 404,
+    statusMessage: "Not Found",
+    body: JSON.stringify({ code: "ResourceNotFound", message }),
+})));
+
+// Mimic connection error of fetch
+const connectionRefused = (nodeUrl: string) =>
+    new Error(`request to ${nodeUrl} failed, reason: connect ECONNREFUSED`);
+
+// Same rule as Listener: signer, cosigners, recipients, metadata targets and inner transactions
+const isInvolved = (tx: Transaction, address: UnresolvedAddress): boolean =>
+    !!tx.signer?.address.equals(address) ||
+    ((tx instanceof TransferTransaction || tx instanceof SecretLockTransaction || tx instanceof SecretProofTransaction) &&
+        tx.recipientAddress.equals(address)) ||
+    ((tx instanceof AccountMetadataTransaction || tx instanceof MosaicMetadataTransaction ||
+        tx instanceof NamespaceMetadataTransaction) && tx.targetAddress.equals(address)) ||
+    (tx instanceof AggregateTransaction && (
+        tx.cosignatures.some((cosignature) => cosignature.signer.address.equals(address)) ||
+        tx.innerTransactions.some((innerTx) => isInvolved(innerTx, address))
+    ));
+
+const notSupported = (name: string): never => {
+    throw new Error(`${name} is not supported by the simulator.`);
+};
+
+// Catapult config values look like "1'024"
+const toConfigNumber = (value: number | string) =>
+    Number(value).toLocaleString("en-US").replace(/,/g, "'");
+
+// Catapult config durations look like "6h", "30s" or "365d"
+const toConfigMsecs = (value: string = "0") => {
+    const [ , amount, unit ] = value.replace(/'/g, "").match(/^(\d+)(ms|s|m|h|d)$/) || [ "", "0", "ms" ];
+    return Number(amount) * ({ ms: 1, s: 1000, m: 60000, h: 3600000, d: 86400000 } as Record<string, number>)[unit];
+};
+
+const toPage = <T>(items: T[], pageSize: number = 10, pageNumber: number = 1) => {
+    const offset = (pageNumber - 1) * pageSize;
+    return new Page<T>(items.slice(offset, offset + pageSize), pageNumber, pageSize);
+};
+
+const sortByOrder = <T>(items: T[], order?: Order) =>
+    order === Order.Desc ? [ ...items ].reverse() : items;
+
+
+/**
+ * In-memory Symbol chain for offline testing.
+ * Pass `simulator.createRepositoryFactory()` to `SymbolServiceConfig.repo_factory`.
+ * Announced transactions are validated (signatures, cosignatures, balances) and applied
+ * in the next block. Supported transactions are transfers, metadata, mosaic definition/supply change,
+ * namespace registration and secret lock/proof. Rental fees are not charged.
+ */
+export class SimulatedChain {
+
+    public readonly config: SimulatedChainConfig = {
+        network_type: NetworkType.TEST_NET,
+        generation_hash: "49D6E1CE276A85B70EAFE52349AACCA389302E7A9754BCF1221E79494FC665A4",
+        epoch_adjustment: 1667250467,
+        currency_mosaic_id: "72C0212E67A08BCE",
+        node_public_key: "D3B4ED3DE2B1A8D7A3D0E1F6A86C1A7B2A6D1C9E2B4B2C5F7E8D9A0B1C2D3E4F",
+        min_fee_multiplier: 10,
+        average_fee_multiplier: 100,
+        block_interval: 10,
+        auto_mining: true,
+    };
+
+    public readonly url = "http://simulator:3000";
+    public readonly networkProperties: NetworkConfiguration;
+    public readonly currencyMosaicId: MosaicId;
+
+    private ledger: SimulatedLedger = {
+        accounts: new Map(),
+        metadata: new Map(),
+        mosaics: new Map(),
+        namespaces: new Map(),
+        secretLocks: new Map(),
+    };
+    private readonly blocks = new Array<SimulatedBlock>();
+    private readonly confirmedTxs = new Array<Transaction>();
+    private pendingTxs = new Array<PendingTx>();
+    // Key: Transaction hash
+    private readonly statuses = new Map<string, TransactionStatus>();
+    private timeShift = 0;
+    private miningTimer?: ReturnType<typeof setTimeout>;
+    private idSequence = 0;
+    private readonly listeners = new Set<SimulatedListener>();
+    private readonly offlineNodes = new Set<string>();
+    private webSocketBlocked = false;
+
+    public readonly confirmedSubject = new Subject<Transaction>();
+    public readonly statusSubject = new Subject<TransactionStatusError>();
+    public readonly newBlockSubject = new Subject<NewBlock>();
+
+    public constructor(cfg?: Partial<SimulatedChainConfig>) {
+        this.config = { ...this.config, ...cfg };
+        this.currencyMosaicId = new MosaicId(this.config.currency_mosaic_id);
+        this.networkProperties = this.createNetworkProperties();
+
+        // Nemesis block
+        this.blocks.push({
+            height: UInt64.fromUint(1),
+            timestamp: UInt64.fromUint(0),
+            feeMultiplier: 0,
+        });
+    }
+
+    private createNetworkProperties() {
+        return new NetworkConfiguration(
+            new NetworkProperties(
+                this.config.network_type === NetworkType.MAIN_NET ? "mainnet" : "testnet",
+                undefined,
+                this.config.node_public_key,
+                this.config.generation_hash,
+                `${this.config.epoch_adjustment}s`,
+            ),
+            new ChainProperties(
+                false,
+                false,
+                `0x${this.config.currency_mosaic_id.replace(/(.{4})(?!$)/g, "$1'")}`,
+                `0x${this.config.currency_mosaic_id.replace(/(.{4})(?!$)/g, "$1'")}`,
+                "30s",
+                undefined,
+                "20",
+                undefined,
+                undefined,
+                "398",
+                undefined,
+                toConfigNumber(100),
+                "6h",
+                "10s",
+                undefined,
+                toConfigNumber(9999999999000000),
+            ),
+            new PluginProperties(
+                undefined,
+                new AggregateNetworkProperties("100", "25", false, true, "48h"),
+                undefined,
+                new SecretLockNetworkProperties("365d", "0", "1024"),
+                new MetadataNetworkProperties(toConfigNumber(1024)),
+                new MosaicNetworkProperties(toConfigNumber(1000), "3650d", "6"),
+                undefined,
+                new NamespaceNetworkProperties("64", "256", "3", "30d", "1825d", "1d", "symbol, symbl, xym, xem, nem, user, account, sym"),
+                undefined,
+                undefined,
+                new TransferNetworkProperties(toConfigNumber(1024)),
+            ),
+        );
+    }
+
+    // Pass another node URL to emulate multiple nodes that share the same chain.
+    public createRepositoryFactory(nodeUrl: string = this.url): RepositoryFactory {
+        return new SimulatedRepositoryFactory(this, nodeUrl);
+    }
+
+    public createListener(nodeUrl: string = this.url): IListener {
+        const listener = new SimulatedListener(this, nodeUrl);
+        this.listeners.add(listener);
+        return listener;
+    }
+
+    public get numOpenListeners() {
+        return [ ...this.listeners ].filter((listener) => listener.isOpen()).length;
+    }
+
+    // Emulate WebSocket connections closed by the node
+    public disconnectListeners(nodeUrl?: string) {
+        for (const listener of this.listeners) {
+            if (!nodeUrl || listener.nodeUrl === nodeUrl) {
+                listener.disconnect();
+            }
+        }
+    }
+
+    // Emulate node down. HTTP requests and WebSocket connections to the node will fail.
+    public setNodeOffline(nodeUrl: string, offline: boolean = true) {
+        if (offline) {
+            this.offlineNodes.add(nodeUrl);
+            this.disconnectListeners(nodeUrl);
+        } else {
+            this.offlineNodes.delete(nodeUrl);
+        }
+    }
+
+    public isNodeOffline(nodeUrl: string) {
+        return this.offlineNodes.has(nodeUrl);
+    }
+
+    // Emulate environments where WebSocket is blocked (e.g. by proxy). HTTP requests still work.
+    public setWebSocketBlocked(blocked: boolean = true) {
+        this.webSocketBlocked = blocked;
+        if (blocked) {
+            this.disconnectListeners();
+        }
+    }
+
+    public isWebSocketBlocked() {
+        return this.webSocketBlocked;
+    }
+
+    // Network time (milliseconds since nemesis)
+    public now() {
+        return moment.now() + this.timeShift - this.config.epoch_adjustment * 1000;
+    }
+
+    // Move the chain clock forward (affects deadlines and block timestamps)
+    public advanceTime(msecs: number) {
+        this.timeShift += msecs;
+    }
+
+    public get height() {
+        return this.blocks[this.blocks.length - 1].height;
+    }
+
+    public getBlock(height: UInt64) {
+        return this.blocks.find((block) => block.height.equals(height));
+    }
+
+    public get numPendingTxs() {
+        return this.pendingTxs.length;
+    }
+
+    private nextId() {
+        return `${++this.idSequence}`.padStart(24, "0");
+    }
+
+    private getOrCreateAccount(ledger: SimulatedLedger, address: Address) {
+        let account = ledger.accounts.get(address.plain());
+        if (!account) {
+            account = {
+                address,
+                height: this.height,
+                balances: new Map(),
+            };
+            ledger.accounts.set(address.plain(), account);
+        }
+        return account;
+    }
+
+    private credit(ledger: SimulatedLedger, address: Address, mosaicId: MosaicId, amount: Long) {
+        const account = this.getOrCreateAccount(ledger, address);
+        const balance = account.balances.get(mosaicId.toHex()) || Long.UZERO;
+        account.balances.set(mosaicId.toHex(), balance.add(amount));
+    }
+
+    private debit(ledger: SimulatedLedger, address: Address, mosaicId: MosaicId, amount: Long) {
+        const account = ledger.accounts.get(address.plain());
+        const balance = account?.balances.get(mosaicId.toHex()) || Long.UZERO;
+        if (!account || balance.lessThan(amount)) {
+            fail(TransactionStatusEnum.FailureCoreInsufficientBalance);
+        }
+        account?.balances.set(mosaicId.toHex(), balance.sub(amount));
+    }
+
+    // Give funds to an account out of thin air (defaults to network currency)
+    public fund(address: Address, amount: UInt64 | number, mosaicId: MosaicId = this.currencyMosaicId) {
+        this.credit(
+            this.ledger,
+            address,
+            mosaicId,
+            Long.fromString(typeof (amount) === "number" ? amount.toString() : amount.toString(), true),
+        );
+    }
+
+    public getAccount(address: Address) {
+        return this.ledger.accounts.get(address.plain());
+    }
+
+    public getBalance(address: Address, mosaicId: MosaicId = this.currencyMosaicId) {
+        const balance = this.ledger.accounts.get(address.plain())?.balances.get(mosaicId.toHex());
+        return UInt64.fromNumericString((balance || Long.UZERO).toString());
+    }
+
+    public getMetadata(compositeHash: string) {
+        return this.ledger.metadata.get(compositeHash);
+    }
+
+    public get metadataEntries() {
+        return [ ...this.ledger.metadata.values() ];
+    }
+
+    public getMosaic(mosaicId: MosaicId) {
+        return this.ledger.mosaics.get(mosaicId.toHex());
+    }
+
+    public getNamespace(namespaceId: NamespaceId) {
+        return this.ledger.namespaces.get(namespaceId.toHex());
+    }
+
+    public getConfirmedTx(hash: string) {
+        return this.confirmedTxs.find((tx) => tx.transactionInfo?.hash === hash.toUpperCase());
+    }
+
+    public getPendingTx(hash: string) {
+        return this.pendingTxs.find((pending) => pending.hash === hash.toUpperCase())?.tx;
+    }
+
+    public getTransactionStatus(hash: string) {
+        return this.statuses.get(hash.toUpperCase());
+    }
+
+    public get transactions() {
+        return [ ...this.confirmedTxs ];
+    }
+
+    public announce(signedTx: SignedTransaction) {
+        const tx = TransactionMapping.createFromPayload(signedTx.payload) as Transaction;
+        const hash = Transaction.createTransactionHash(
+            signedTx.payload,
+            Array.from(Convert.hexToUint8(this.config.generation_hash)),
+        );
+
+        if (!this.statuses.has(hash)) {
+            this.pendingTxs.push({ tx, hash, payload: signedTx.payload });
+            this.statuses.set(hash, new TransactionStatus(
+                TransactionGroupEnum.Unconfirmed,
+                hash,
+                tx.deadline,
+            ));
+            Logger.debug(`Simulator: Received TX: ${hash}`);
+            this.scheduleMining();
+        }
+
+        return new (TransactionAnnounceResponse as any)(
+            "packet 9 was pushed to the network via /transactions"
+        ) as TransactionAnnounceResponse;
+    }
+
+    private scheduleMining() {
+        if (this.config.auto_mining && !this.miningTimer) {
+            this.miningTimer = setTimeout(() => {
+                this.miningTimer = undefined;
+                this.mineBlock();
+            }, this.config.block_interval);
+        }
+    }
+
+    // Stop auto mining timer (call this at the end of tests)
+    public stop() {
+        if (this.miningTimer) {
+            clearTimeout(this.miningTimer);
+            this.miningTimer = undefined;
+        }
+        this.config.auto_mining = false;
+    }
+
+    // Harvest a new block that includes all acceptable pending transactions.
+    public mineBlock() {
+        const block: SimulatedBlock = {
+            height: this.height.add(UInt64.fromUint(1)),
+            timestamp: UInt64.fromUint(Math.max(this.now(), 0)),
+            feeMultiplier: this.config.min_fee_multiplier,
+        };
+        this.blocks.push(block);
+
+        const confirmed = new Array<Transaction>();
+        const pendingTxs = this.pendingTxs;
+        this.pendingTxs = [];
+
+        for (const pending of pendingTxs) {
+            try {
+                if (pending.tx.deadline.adjustedValue <= block.timestamp.compact()) {
+                    fail(TransactionStatusEnum.FailureCorePastDeadline);
+                }
+                if (pending.tx.deadline.adjustedValue > block.timestamp.compact() +
+                    toConfigMsecs(this.networkProperties.chain.maxTransactionLifetime)
+                ) {
+                    fail(TransactionStatusEnum.FailureCoreFutureDeadline);
+                }
+                if (pending.tx.maxFee.compact() < pending.tx.size * block.feeMultiplier) {
+                    // Harvester won't include the transaction
+                    this.pendingTxs.push(pending);
+                    continue;
+                }
+                confirmed.push(this.executeTx(pending, block, confirmed.length));
+            } catch (e) {
+                const code = e instanceof SimulatedFailure ? e.code : String(e);
+                Logger.debug(`Simulator: TX ${pending.hash} failed: ${code}`);
+                this.statuses.set(pending.hash, new TransactionStatus(
+                    TransactionGroupEnum.Failed,
+                    pending.hash,
+                    pending.tx.deadline,
+                    code as TransactionStatusEnum,
+                ));
+                assertSigner(pending.tx);
+                this.statusSubject.next(new (TransactionStatusError as any)(
+                    pending.tx.signer.address,
+                    pending.hash,
+                    code,
+                    pending.tx.deadline,
+                ));
+            }
+        }
+
+        this.expireSecretLocks(block);
+        Logger.debug(`Simulator: Block ${block.height.toString()} harvested with ${confirmed.length} TXs`);
+
+        this.newBlockSubject.next(new (NewBlock as any)({
+            hash: Convert.uint8ToHex(Uint8Array.from(sha3_256.array(block.height.toHex()))),
+            generationHash: this.config.generation_hash,
+            height: block.height,
+            timestamp: block.timestamp,
+            feeMultiplier: block.feeMultiplier,
+        }) as NewBlock);
+        confirmed.forEach((tx) => this.confirmedSubject.next(tx));
+
+        if (this.pendingTxs.length) {
+            this.scheduleMining();
+        }
+
+        return block.height;
+    }
+
+    private verifySignatures(pending: PendingTx) {
+        const { tx, hash } = pending;
+        assertSigner(tx);
+
+        const generationHashBytes = Array.from(Convert.hexToUint8(this.config.generation_hash));
+        // Rebuild payload so that tampered inner transactions break the aggregate signature.
+        const signingBytes = tx.getSigningBytes(Array.from(Convert.hexToUint8(tx.serialize())), generationHashBytes);
+        if (!tx.signature || !KeyPair.verify(
+            Convert.hexToUint8(tx.signer.publicKey),
+            Uint8Array.from(signingBytes),
+            Convert.hexToUint8(tx.signature),
+        )) {
+            fail(TransactionStatusEnum.FailureSignatureNotVerifiable);
+        }
+
+        const signers = new Set<string>([ tx.signer.address.plain() ]);
+        if (tx instanceof AggregateTransaction) {
+            for (const cosignature of tx.cosignatures) {
+                if (!KeyPair.verify(
+                    Convert.hexToUint8(cosignature.signer.publicKey),
+                    Convert.hexToUint8(hash),
+                    Convert.hexToUint8(cosignature.signature),
+                )) {
+                    fail(TransactionStatusEnum.FailureSignatureNotVerifiable);
+                }
+                signers.add(cosignature.signer.address.plain());
+            }
+        }
+
+        return signers;
+    }
+
+    private executeTx(pending: PendingTx, block: SimulatedBlock, index: number) {
+        const { tx, hash, payload } = pending;
+        assertSigner(tx);
+        const signers = this.verifySignatures(pending);
+        const innerTxs = tx instanceof AggregateTransaction ? tx.innerTransactions : [ tx ];
+        const aggregate = this.networkProperties.plugins.aggregate;
+
+        if (innerTxs.length > Number(aggregate?.maxTransactionsPerAggregate || 100)) {
+            fail(TransactionStatusEnum.FailureAggregateTooManyTransactions);
+        }
+        if (signers.size - 1 > Number(aggregate?.maxCosignaturesPerAggregate || 25)) {
+            fail(TransactionStatusEnum.FailureAggregateTooManyCosignatures);
+        }
+
+        // Work on a copy so that a failed inner transaction rolls back the whole aggregate.
+        const ledger = _.cloneDeep(this.ledger);
+        const fee = Long.fromNumber(tx.size * block.feeMultiplier, true);
+        this.debit(ledger, tx.signer.address, this.currencyMosaicId, fee);
+
+        for (const innerTx of innerTxs) {
+            assertSigner(innerTx);
+            if (!signers.has(innerTx.signer.address.plain())) {
+                fail(TransactionStatusEnum.FailureAggregateMissingCosignatures);
+            }
+            this.executeInnerTx(ledger, innerTx, signers, block);
+        }
+
+        // Register public keys
+        for (const signer of [ tx.signer, ...(tx instanceof AggregateTransaction ? tx.cosignatures.map((c) => c.signer) : []) ]) {
+            const account = this.getOrCreateAccount(ledger, signer.address);
+            account.publicKey = account.publicKey || signer.publicKey;
+        }
+
+        this.ledger = ledger;
+
+        const id = this.nextId();
+        const meta = {
+            height: block.height.toString(),
+            hash,
+            merkleComponentHash: hash,
+            index,
+            timestamp: block.timestamp.toString(),
+            feeMultiplier: block.feeMultiplier,
+        };
+        const dto = TransactionMapping.createFromPayload(payload).toJSON().transaction;
+        if (tx instanceof AggregateTransaction) {
+            dto.cosignatures = tx.cosignatures.map((cosignature) => ({
+                version: cosignature.version.toString(),
+                signerPublicKey: cosignature.signer.publicKey,
+                signature: cosignature.signature,
+            }));
+        }
+        if (dto.transactions) {
+            dto.transactions = dto.transactions.map((innerDto: any, innerIndex: number) => ({
+                id: this.nextId(),
+                meta: { height: meta.height, aggregateHash: hash, aggregateId: id, index: innerIndex },
+                transaction: innerDto.transaction,
+            }));
+        }
+        const confirmedTx = TransactionMapping.createFromDTO({ id, meta, transaction: dto });
+
+        this.confirmedTxs.push(confirmedTx);
+        this.statuses.set(hash, new TransactionStatus(
+            TransactionGroupEnum.Confirmed,
+            hash,
+            tx.deadline,
+            TransactionStatusEnum.Success,
+            block.height,
+        ));
+        Logger.debug(`Simulator: TX ${hash} confirmed at ${block.height.toString()}`);
+
+        return confirmedTx;
+    }
+
+    private isNamespaceActive(namespace: SimulatedNamespace, height = this.height) {
+        return namespace.endHeight.equals(UInt64.fromUint(0)) || namespace.endHeight.compare(height) > 0;
+    }
+
+    // Alias of the active namespace
+    private getAlias(ledger: SimulatedLedger, namespaceId: NamespaceId) {
+        const namespace = ledger.namespaces.get(namespaceId.toHex());
+        return namespace && this.isNamespaceActive(namespace) ? namespace.alias : undefined;
+    }
+
+    public resolveMosaicId(mosaicId: UnresolvedMosaicId, ledger = this.ledger) {
+        if (!(mosaicId instanceof NamespaceId)) {
+            return mosaicId;
+        }
+        const alias = this.getAlias(ledger, mosaicId);
+        return alias instanceof MosaicId ? alias : fail(TransactionStatusEnum.FailureMosaicExpired);
+    }
+
+    public resolveAddress(address: UnresolvedAddress, ledger = this.ledger) {
+        if (!(address instanceof NamespaceId)) {
+            return address;
+        }
+        const alias = this.getAlias(ledger, address);
+        return alias instanceof Address ? alias : fail(TransactionStatusEnum.FailureCoreInvalidAddress);
+    }
+
+    private isActive(startHeight: UInt64, duration: UInt64, height: UInt64) {
+        return duration.equals(UInt64.fromUint(0)) || startHeight.add(duration).compare(height) > 0;
+    }
+
+    private getActiveMosaic(ledger: SimulatedLedger, mosaicId: MosaicId, height: UInt64) {
+        const mosaic = ledger.mosaics.get(mosaicId.toHex());
+        if (!mosaic && mosaicId.equals(this.currencyMosaicId)) {
+            return undefined;
+        }
+        if (!mosaic || !this.isActive(mosaic.startHeight, mosaic.duration, height)) {
+            return fail(TransactionStatusEnum.FailureMosaicExpired);
+        }
+        return mosaic;
+    }
+
+    private getActiveNamespace(ledger: SimulatedLedger, namespaceId: NamespaceId, height: UInt64) {
+        const namespace = ledger.namespaces.get(namespaceId.toHex());
+        if (!namespace) {
+            return fail(TransactionStatusEnum.FailureNamespaceUnknown);
+        }
+        if (!this.isNamespaceActive(namespace, height)) {
+            return fail(TransactionStatusEnum.FailureNamespaceExpired);
+        }
+        return namespace;
+    }
+
+    private executeInnerTx(ledger: SimulatedLedger, tx: Transaction, signers: Set<string>, block: SimulatedBlock) {
+        assertSigner(tx);
+        const signerAddress = tx.signer.address;
+
+        if (tx instanceof TransferTransaction) {
+            const recipient = this.resolveAddress(tx.recipientAddress, ledger);
+            for (const mosaic of tx.mosaics) {
+                const mosaicId = this.resolveMosaicId(mosaic.id, ledger);
+                const definition = this.getActiveMosaic(ledger, mosaicId, block.height);
+                if (definition && !definition.flags.transferable &&
+                    !definition.owner.equals(signerAddress) && !definition.owner.equals(recipient)
+                ) {
+                    fail(TransactionStatusEnum.FailureMosaicNonTransferable);
+                }
+                const amount = Long.fromString(mosaic.amount.toString(), true);
+                this.debit(ledger, signerAddress, mosaicId, amount);
+                this.credit(ledger, recipient, mosaicId, amount);
+            }
+            this.getOrCreateAccount(ledger, recipient);
+        } else if (tx instanceof AccountMetadataTransaction ||
+            tx instanceof MosaicMetadataTransaction ||
+            tx instanceof NamespaceMetadataTransaction
+        ) {
+            this.executeMetadataTx(ledger, tx, signers, block);
+        } else if (tx instanceof MosaicDefinitionTransaction) {
+            if (!MosaicId.createFromNonce(tx.nonce, signerAddress).equals(tx.mosaicId)) {
+                fail(TransactionStatusEnum.FailureMosaicInvalidId);
+            }
+            const existing = ledger.mosaics.get(tx.mosaicId.toHex());
+            if (existing && !this.isActive(existing.startHeight, existing.duration, block.height)) {
+                fail(TransactionStatusEnum.FailureMosaicExpired);
+            }
+            if (existing && !existing.supply.isZero()) {
+                fail(TransactionStatusEnum.FailureMosaicModificationDisallowed);
+            }
+            // Redefinition XORs flags and divisibility, and adds the duration
+            const flags = existing ? new MosaicFlags(existing.flags.getValue() ^ tx.flags.getValue()) : tx.flags;
+            const divisibility = existing ? existing.divisibility ^ tx.divisibility : tx.divisibility;
+            if (divisibility > Number(this.networkProperties.plugins.mosaic?.maxMosaicDivisibility || 6)) {
+                fail(TransactionStatusEnum.FailureMosaicInvalidDivisibility);
+            }
+            ledger.mosaics.set(tx.mosaicId.toHex(), {
+                id: tx.mosaicId,
+                owner: signerAddress,
+                supply: Long.UZERO,
+                flags,
+                divisibility,
+                duration: existing ? existing.duration.add(tx.duration) : tx.duration,
+                startHeight: existing?.startHeight || block.height,
+            });
+        } else if (tx instanceof MosaicSupplyChangeTransaction) {
+            const mosaicId = this.resolveMosaicId(tx.mosaicId, ledger);
+            const mosaic = this.getActiveMosaic(ledger, mosaicId, block.height);
+            if (!mosaic || !mosaic.owner.equals(signerAddress)) {
+                fail(TransactionStatusEnum.FailureMosaicOwnerConflict);
+            }
+            const delta = Long.fromString(tx.delta.toString(), true);
+            const ownerBalance = ledger.accounts.get(signerAddress.plain())?.balances.get(mosaicId.toHex()) || Long.UZERO;
+            if (!mosaic.flags.supplyMutable && !ownerBalance.equals(mosaic.supply)) {
+                fail(TransactionStatusEnum.FailureMosaicSupplyImmutable);
+            }
+            if (tx.action === MosaicSupplyChangeAction.Increase) {
+                mosaic.supply = mosaic.supply.add(delta);
+                this.credit(ledger, signerAddress, mosaicId, delta);
+            } else {
+                if (mosaic.supply.lessThan(delta) || ownerBalance.lessThan(delta)) {
+                    fail(TransactionStatusEnum.FailureMosaicSupplyNegative);
+                }
+                mosaic.supply = mosaic.supply.sub(delta);
+                this.debit(ledger, signerAddress, mosaicId, delta);
+            }
+        } else if (tx instanceof MosaicSupplyRevocationTransaction) {
+            const mosaicId = this.resolveMosaicId(tx.mosaic.id, ledger);
+            const mosaic = this.getActiveMosaic(ledger, mosaicId, block.height);
+            if (!mosaic || !mosaic.owner.equals(signerAddress)) {
+                fail(TransactionStatusEnum.FailureMosaicOwnerConflict);
+            }
+            if (!mosaic.flags.revokable) {
+                fail(TransactionStatusEnum.FailureMosaicRequiredPropertyFlagUnset);
+            }
+            const amount = Long.fromString(tx.mosaic.amount.toString(), true);
+            this.debit(ledger, this.resolveAddress(tx.sourceAddress, ledger), mosaicId, amount);
+            this.credit(ledger, signerAddress, mosaicId, amount);
+        } else if (tx instanceof NamespaceRegistrationTransaction) {
+            this.executeNamespaceRegistrationTx(ledger, tx, block);
+        } else if (tx instanceof AddressAliasTransaction || tx instanceof MosaicAliasTransaction) {
+            this.executeAliasTx(ledger, tx, block);
+        } else if (tx instanceof SecretLockTransaction) {
+            if (tx.hashAlgorithm !== LockHashAlgorithm.Op_Sha3_256) {
+                fail(TransactionStatusEnum.FailureLockSecretInvalidHashAlgorithm);
+            }
+            const recipient = this.resolveAddress(tx.recipientAddress, ledger);
+            const compositeHash = SimulatedChain.calculateSecretLockHash(tx.secret, recipient);
+            const existing = ledger.secretLocks.get(compositeHash);
+            if (existing && !existing.used && existing.endHeight.compare(block.height) > 0) {
+                fail(TransactionStatusEnum.FailureLockSecretHashAlreadyExists);
+            }
+            const mosaicId = this.resolveMosaicId(tx.mosaic.id, ledger);
+            const amount = Long.fromString(tx.mosaic.amount.toString(), true);
+            this.debit(ledger, signerAddress, mosaicId, amount);
+            ledger.secretLocks.set(compositeHash, {
+                compositeHash,
+                owner: signerAddress,
+                recipient,
+                mosaicId,
+                amount,
+                endHeight: block.height.add(tx.duration),
+                secret: tx.secret.toUpperCase(),
+                used: false,
+            });
+        } else if (tx instanceof SecretProofTransaction) {
+            if (tx.hashAlgorithm !== LockHashAlgorithm.Op_Sha3_256) {
+                fail(TransactionStatusEnum.FailureLockSecretInvalidHashAlgorithm);
+            }
+            const recipient = this.resolveAddress(tx.recipientAddress, ledger);
+            const compositeHash = SimulatedChain.calculateSecretLockHash(tx.secret, recipient);
+            const lock = ledger.secretLocks.get(compositeHash);
+            if (!lock || lock.used || lock.endHeight.compare(block.height) <= 0) {
+                fail(TransactionStatusEnum.FailureLockSecretUnknownCompositeKey);
+            }
+            const secret = sha3_256.create().update(Convert.hexToUint8(tx.proof)).hex().toUpperCase();
+            if (secret !== lock.secret) {
+                fail(TransactionStatusEnum.FailureLockSecretSecretMismatch);
+            }
+            lock.used = true;
+            this.credit(ledger, lock.recipient, lock.mosaicId, lock.amount);
+        } else {
+            fail(`Failure_Simulator_Unsupported_Transaction_Type_${tx.type}`);
+        }
+    }
+
+    private executeMetadataTx(
+        ledger: SimulatedLedger,
+        tx: AccountMetadataTransaction | MosaicMetadataTransaction | NamespaceMetadataTransaction,
+        signers: Set<string>,
+        block: SimulatedBlock,
+    ) {
+        assertSigner(tx);
+        const sourceAddress = tx.signer.address;
+        const targetAddress = this.resolveAddress(tx.targetAddress, ledger);
+        let type = MetadataType.Account;
+        let targetId: MosaicId | NamespaceId | undefined;
+
+        // Target account must approve the metadata
+        if (!signers.has(targetAddress.plain())) {
+            fail(TransactionStatusEnum.FailureAggregateMissingCosignatures);
+        }
+
+        if (tx instanceof MosaicMetadataTransaction) {
+            type = MetadataType.Mosaic;
+            targetId = this.resolveMosaicId(tx.targetMosaicId, ledger);
+            const mosaic = this.getActiveMosaic(ledger, targetId, block.height);
+            if (mosaic && !mosaic.owner.equals(targetAddress)) {
+                fail(TransactionStatusEnum.FailureMosaicOwnerConflict);
+            }
+        } else if (tx instanceof NamespaceMetadataTransaction) {
+            type = MetadataType.Namespace;
+            targetId = tx.targetNamespaceId;
+            const namespace = this.getActiveNamespace(ledger, targetId, block.height);
+            if (!namespace.owner.equals(targetAddress)) {
+                fail(TransactionStatusEnum.FailureNamespaceOwnerConflict);
+            }
+        }
+
+        const compositeHash = SimulatedChain.calculateMetadataHash(
+            type, sourceAddress, targetAddress, targetId, tx.scopedMetadataKey,
+        );
+        const oldValue = ledger.metadata.get(compositeHash)?.value || new Uint8Array(0);
+        // symbol-sdk parses negative delta from payload as unsigned 16 bits
+        const sizeDelta = tx.valueSizeDelta > 0x7fff ? tx.valueSizeDelta - 0x10000 : tx.valueSizeDelta;
+        const newSize = oldValue.length + sizeDelta;
+
+        if (newSize < 0 || tx.value.length !== Math.max(oldValue.length, newSize)) {
+            fail(TransactionStatusEnum.FailureMetadataValueSizeDeltaMismatch);
+        }
+        if (newSize > Number((this.networkProperties.plugins.metadata?.maxValueSize || "1024").replace(/'/g, ""))) {
+            fail(TransactionStatusEnum.FailureMetadataValueTooLarge);
+        }
+
+        const newValue = new Uint8Array(newSize);
+        for (let i = 0; i < newSize; i++) {
+            newValue[i] = (oldValue[i] || 0) ^ tx.value[i];
+        }
+
+        if (newSize) {
+            ledger.metadata.set(compositeHash, new BinMetadataEntry(
+                1,
+                compositeHash,
+                sourceAddress,
+                targetAddress,
+                tx.scopedMetadataKey,
+                type,
+                newValue,
+                targetId,
+            ));
+        } else {
+            ledger.metadata.delete(compositeHash);
+        }
+    }
+
+    private executeNamespaceRegistrationTx(
+        ledger: SimulatedLedger,
+        tx: NamespaceRegistrationTransaction,
+        block: SimulatedBlock,
+    ) {
+        assertSigner(tx);
+        const ownerAddress = tx.signer.address;
+
+        if (!tx.namespaceName.match(/^[a-z0-9][a-z0-9_-]*$/) ||
+            tx.namespaceName.length > Number(this.networkProperties.plugins.namespace?.maxNameSize || 64)
+        ) {
+            fail(TransactionStatusEnum.FailureNamespaceInvalidName);
+        }
+
+        if (tx.registrationType === NamespaceRegistrationType.RootNamespace) {
+            assert(tx.duration);
+            const existing = ledger.namespaces.get(tx.namespaceId.toHex());
+            const isActive = existing && existing.endHeight.compare(block.height) > 0;
+            if (isActive && !existing?.owner.equals(ownerAddress)) {
+                fail(TransactionStatusEnum.FailureNamespaceOwnerConflict);
+            }
+            const endHeight = (isActive && existing ? existing.endHeight : block.height).add(tx.duration);
+            ledger.namespaces.set(tx.namespaceId.toHex(), {
+                id: tx.namespaceId,
+                name: tx.namespaceName,
+                owner: ownerAddress,
+                startHeight: isActive && existing ? existing.startHeight : block.height,
+                endHeight,
+                // Alias survives the renewal
+                alias: isActive ? existing?.alias : undefined,
+            });
+            if (isActive) {
+                // Children share the lifetime of the root
+                for (const namespace of ledger.namespaces.values()) {
+                    if (namespace.parentId && this.getRootNamespace(ledger, namespace).id.equals(tx.namespaceId)) {
+                        namespace.endHeight = endHeight;
+                    }
+                }
+            }
+        } else {
+            assert(tx.parentId);
+            if (!ledger.namespaces.has(tx.parentId.toHex())) {
+                fail(TransactionStatusEnum.FailureNamespaceUnknownParent);
+            }
+            const parent = this.getActiveNamespace(ledger, tx.parentId, block.height);
+            if (!parent.owner.equals(ownerAddress)) {
+                fail(TransactionStatusEnum.FailureNamespaceOwnerConflict);
+            }
+            if (ledger.namespaces.has(tx.namespaceId.toHex())) {
+                fail(TransactionStatusEnum.FailureNamespaceAlreadyActive);
+            }
+            ledger.namespaces.set(tx.namespaceId.toHex(), {
+                id: tx.namespaceId,
+                name: tx.namespaceName,
+                owner: ownerAddress,
+                parentId: tx.parentId,
+                startHeight: block.height,
+                endHeight: parent.endHeight,
+            });
+        }
+    }
+
+    private getRootNamespace(ledger: SimulatedLedger, namespace: SimulatedNamespace): SimulatedNamespace {
+        const parent = namespace.parentId && ledger.namespaces.get(namespace.parentId.toHex());
+        return parent ? this.getRootNamespace(ledger, parent) : namespace;
+    }
+
+    private executeAliasTx(
+        ledger: SimulatedLedger,
+        tx: AddressAliasTransaction | MosaicAliasTransaction,
+        block: SimulatedBlock,
+    ) {
+        assertSigner(tx);
+        const namespace = this.getActiveNamespace(ledger, tx.namespaceId, block.height);
+        if (!namespace.owner.equals(tx.signer.address)) {
+            fail(TransactionStatusEnum.FailureNamespaceOwnerConflict);
+        }
+        const alias = tx instanceof AddressAliasTransaction ? tx.address : tx.mosaicId;
+
+        if (tx.aliasAction === AliasAction.Link) {
+            if (namespace.alias) {
+                fail(TransactionStatusEnum.FailureNamespaceAliasAlreadyExists);
+            }
+            if (alias instanceof MosaicId) {
+                const mosaic = this.getActiveMosaic(ledger, alias, block.height);
+                if (!mosaic || !mosaic.owner.equals(tx.signer.address)) {
+                    fail(TransactionStatusEnum.FailureMosaicOwnerConflict);
+                }
+            }
+            namespace.alias = alias;
+        } else if (tx.aliasAction === AliasAction.Unlink) {
+            if (!namespace.alias) {
+                fail(TransactionStatusEnum.FailureNamespaceUnknownAlias);
+            }
+            if ((namespace.alias instanceof Address) !== (alias instanceof Address)) {
+                fail(TransactionStatusEnum.FailureNamespaceAliasInconsistentUnlinkType);
+            }
+            if (!namespace.alias.equals(alias)) {
+                fail(TransactionStatusEnum.FailureNamespaceAliasInconsistentUnlinkData);
+            }
+            namespace.alias = undefined;
+        } else {
+            fail(TransactionStatusEnum.FailureNamespaceAliasInvalidAction);
+        }
+    }
+
+    private expireSecretLocks(block: SimulatedBlock) {
+        for (const lock of this.ledger.secretLocks.values()) {
+            if (!lock.used && lock.endHeight.equals(block.height)) {
+                // Refund to owner
+                lock.used = true;
+                this.credit(this.ledger, lock.owner, lock.mosaicId, lock.amount);
+            }
+        }
+    }
+
+    public static calculateSecretLockHash(secret: string, recipient: Address) {
+        return sha3_256.create()
+            .update(Convert.hexToUint8(secret))
+            .update(recipient.encodeUnresolvedAddress())
+            .hex()
+            .toUpperCase();
+    }
+
+    // Same as SymbolService.calculateMetadataHash (avoid circular dependency)
+    public static calculateMetadataHash(
+        type: MetadataType,
+        sourceAddress: Address,
+        targetAddress: Address,
+        targetId: undefined | MosaicId | NamespaceId,
+        key: UInt64,
+    ) {
+        const hasher = sha3_256.create();
+        hasher.update(sourceAddress.encodeUnresolvedAddress());
+        hasher.update(targetAddress.encodeUnresolvedAddress());
+        hasher.update(Convert.hexToUint8Reverse(key.toHex()));
+        hasher.update(Convert.hexToUint8Reverse(targetId?.toHex() || "0000000000000000"));
+        hasher.update(Convert.numberToUint8Array(type, 1));
+        return hasher.hex().toUpperCase();
+    }
+
+    // Search confirmed transactions (roughly same as REST /transactions/confirmed)
+    public searchConfirmedTxs(criteria: TransactionSearchCriteria) {
+        const matches = (tx: Transaction) =>
+            (!criteria.address || isInvolved(tx, criteria.address)) &&
+            (!criteria.signerPublicKey || tx.signer?.publicKey === criteria.signerPublicKey) &&
+            (!criteria.recipientAddress || (
+                tx instanceof TransferTransaction && tx.recipientAddress.equals(criteria.recipientAddress)
+            )) &&
+            (!criteria.type?.length || criteria.type.includes(tx.type)) &&
+            (!criteria.height || !!tx.transactionInfo?.height.equals(criteria.height)) &&
+            (!criteria.fromHeight || (tx.transactionInfo?.height.compare(criteria.fromHeight) ?? -1) >= 0) &&
+            (!criteria.toHeight || (tx.transactionInfo?.height.compare(criteria.toHeight) ?? 1) <= 0);
+
+        const txs = criteria.embedded
+            ? this.confirmedTxs.reduce(
+                (acc, tx) => [
+                    ...acc,
+                    tx,
+                    ...(tx instanceof AggregateTransaction ? tx.innerTransactions : []),
+                ],
+                new Array<Transaction>(),
+            )
+            : this.confirmedTxs;
+
+        return sortByOrder(txs.filter(matches), criteria.order);
+    }
+
+    // offset is the id (composite hash) of the entry to start after
+    public searchMetadata(criteria: MetadataSearchCriteria) {
+        const entries = sortByOrder(this.metadataEntries, criteria.order);
+        const start = criteria.offset
+            ? entries.findIndex((entry) => entry.compositeHash === criteria.offset) + 1
+            : 0;
+        return entries.slice(start).filter((entry) =>
+            (!criteria.sourceAddress || entry.sourceAddress.equals(criteria.sourceAddress)) &&
+            (!criteria.targetAddress || entry.targetAddress.equals(criteria.targetAddress)) &&
+            (!criteria.scopedMetadataKey || entry.scopedMetadataKey.toHex() === criteria.scopedMetadataKey.toUpperCase()) &&
+            (!criteria.targetId || entry.targetId?.toHex() === criteria.targetId.toHex()) &&
+            (criteria.metadataType === undefined || entry.metadataType === criteria.metadataType)
+        );
+    }
+
+    public searchMosaics(criteria: MosaicSearchCriteria) {
+        return sortByOrder([ ...this.ledger.mosaics.values() ], criteria.order).filter((mosaic) =>
+            !criteria.ownerAddress || mosaic.owner.equals(criteria.ownerAddress)
+        );
+    }
+
+    public searchNamespaces(criteria: NamespaceSearchCriteria) {
+        return sortByOrder([ ...this.ledger.namespaces.values() ], criteria.order).filter((namespace) =>
+            (!criteria.ownerAddress || namespace.owner.equals(criteria.ownerAddress)) &&
+            (criteria.registrationType === undefined || criteria.registrationType === (
+                namespace.parentId ? NamespaceRegistrationType.SubNamespace : NamespaceRegistrationType.RootNamespace
+            )) &&
+            (!criteria.level0 || this.getNamespaceLevels(namespace)[0].equals(criteria.level0)) &&
+            (criteria.aliasType === undefined || criteria.aliasType === (
+                namespace.alias instanceof Address ? AliasType.Address
+                    : namespace.alias instanceof MosaicId ? AliasType.Mosaic : AliasType.None
+            ))
+        );
+    }
+
+    // Only height, timestamp and fee multiplier are meaningful
+    public createBlockInfo(block: SimulatedBlock) {
+        const harvester = PublicAccount.createFromPublicKey(this.config.node_public_key, this.config.network_type);
+        return new NormalBlockInfo(
+            block.height.toHex(),
+            0,
+            Convert.uint8ToHex(Uint8Array.from(sha3_256.array(block.height.toHex()))),
+            this.config.generation_hash,
+            UInt64.fromUint(0),
+            [],
+            0,
+            "0".repeat(128),
+            harvester,
+            this.config.network_type,
+            1,
+            block.height.equals(UInt64.fromUint(1)) ? BlockType.NemesisBlock : BlockType.NormalBlock,
+            block.height,
+            block.timestamp,
+            UInt64.fromUint(0),
+            block.feeMultiplier,
+            "0".repeat(64),
+            "0".repeat(64),
+            "0".repeat(64),
+            "0".repeat(64),
+            "0".repeat(64),
+            "0".repeat(64),
+            "0".repeat(64),
+            harvester.address,
+            0,
+            0,
+        );
+    }
+
+    public createAccountInfo(account: SimulatedAccount) {
+        return new AccountInfo(
+            1,
+            account.address.plain(),
+            account.address,
+            account.height,
+            account.publicKey || "0".repeat(64),
+            account.publicKey ? account.height : UInt64.fromUint(0),
+            AccountType.Unlinked,
+            new SupplementalPublicKeys(),
+            new Array<ActivityBucket>(),
+            [ ...account.balances.entries() ]
+                .map(([ mosaicIdHex, amount ]) =>
+                    new Mosaic(new MosaicId(mosaicIdHex), UInt64.fromNumericString(amount.toString()))),
+            UInt64.fromUint(0),
+            UInt64.fromUint(0),
+        );
+    }
+
+    public createMosaicInfo(mosaic: SimulatedMosaic) {
+        return new MosaicInfo(
+            1,
+            mosaic.id.toHex(),
+            mosaic.id,
+            UInt64.fromNumericString(mosaic.supply.toString()),
+            mosaic.startHeight,
+            mosaic.owner,
+            1,
+            mosaic.flags,
+            mosaic.divisibility,
+            mosaic.duration,
+        );
+    }
+
+    // Full name like "foo.bar"
+    private getNamespaceFullName(namespace: SimulatedNamespace): string {
+        const parent = namespace.parentId && this.ledger.namespaces.get(namespace.parentId.toHex());
+        return parent ? `${this.getNamespaceFullName(parent)}.${namespace.name}` : namespace.name;
+    }
+
+    private getNamespaceLevels(namespace: SimulatedNamespace): NamespaceId[] {
+        const parent = namespace.parentId && this.ledger.namespaces.get(namespace.parentId.toHex());
+        return [ ...(parent ? this.getNamespaceLevels(parent) : []), namespace.id ];
+    }
+
+    // Full names of active namespaces linked to the address or mosaic
+    public getAliasNames(alias: Address | MosaicId) {
+        return [ ...this.ledger.namespaces.values() ]
+            .filter((namespace) => this.isNamespaceActive(namespace) &&
+                (namespace.alias instanceof Address) === (alias instanceof Address) &&
+                namespace.alias?.equals(alias)
+            )
+            .map((namespace) => {
+                const fullName = this.getNamespaceFullName(namespace);
+                return new NamespaceName(new NamespaceId(fullName), fullName);
+            });
+    }
+
+    public createNamespaceInfo(namespace: SimulatedNamespace) {
+        const levels = this.getNamespaceLevels(namespace);
+        const alias = namespace.alias instanceof Address
+            ? new AddressAlias(namespace.alias)
+            : namespace.alias instanceof MosaicId ? new MosaicAlias(namespace.alias) : new EmptyAlias();
+        return new NamespaceInfo(
+            1,
+            this.isNamespaceActive(namespace),
+            1,
+            namespace.id.toHex(),
+            namespace.parentId ? NamespaceRegistrationType.SubNamespace : NamespaceRegistrationType.RootNamespace,
+            levels.length,
+            levels,
+            namespace.parentId ?? NamespaceId.createFromEncoded("0000000000000000"),
+            namespace.owner,
+            namespace.startHeight,
+            namespace.endHeight,
+            alias,
+        );
+    }
+}
+
+function assertSigner(tx: Transaction): asserts tx is Transaction & { signer: NonNullable<Transaction["signer"]> } {
+    if (!tx.signer) {
+        fail(TransactionStatusEnum.FailureSignatureNotVerifiable);
+    }
+}
+
+
+export class SimulatedListener implements IListener {
+
+    private readonly subscriptions = new Array<Subscription>();
+    private readonly confirmedSubject = new Subject<Transaction>();
+    private readonly statusSubject = new Subject<TransactionStatusError>();
+    private readonly newBlockSubject = new Subject<NewBlock>();
+    private onUnsolicitedClose?: (event: { client: string, code: any, reason: any }) => void;
+
+    public constructor(private readonly chain: SimulatedChain, public readonly nodeUrl: string = chain.url) {}
+
+    public get url() {
+        return this.nodeUrl.replace(/^http/, "ws") + "/ws";
+    }
+
+    public async open(onUnsolicitedCloseCallback?: (event: { client: string, code: any, reason: any }) => void) {
+        if (this.isOpen()) {
+            return;
+        }
+        if (this.chain.isNodeOffline(this.nodeUrl) || this.chain.isWebSocketBlocked()) {
+            throw connectionRefused(this.url);
+        }
+        this.onUnsolicitedClose = onUnsolicitedCloseCallback;
+        this.subscriptions.push(
+            this.chain.confirmedSubject.subscribe((tx) => this.confirmedSubject.next(tx)),
+            this.chain.statusSubject.subscribe((status) => this.statusSubject.next(status)),
+            this.chain.newBlockSubject.subscribe((block) => this.newBlockSubject.next(block)),
+        );
+    }
+
+    public isOpen() {
+        return !!this.subscriptions.length;
+    }
+
+    public close() {
+        this.subscriptions.splice(0).forEach((subscription) => subscription.unsubscribe());
+    }
+
+    public disconnect() {
+        if (this.isOpen()) {
+            this.close();
+            this.onUnsolicitedClose?.({ client: "simulator", code: 1006, reason: "Simulated disconnection" });
+        }
+    }
+
+    public newBlock(): Observable<NewBlock> {
+        return this.newBlockSubject.asObservable();
+    }
+
+    public finalizedBlock(): Observable<FinalizedBlock> {
+        return notSupported("Listener.finalizedBlock");
+    }
+
+    public confirmed(unresolvedAddress: UnresolvedAddress, transactionHash?: string): Observable<Transaction> {
+        return this.confirmedSubject.pipe(
+            filter((tx) => isInvolved(tx, unresolvedAddress)),
+            filter((tx) => !transactionHash || tx.transactionInfo?.hash === transactionHash.toUpperCase()),
+        );
+    }
+
+    public unconfirmedAdded(): Observable<Transaction> {
+        return notSupported("Listener.unconfirmedAdded");
+    }
+
+    public unconfirmedRemoved(): Observable<string> {
+        return notSupported("Listener.unconfirmedRemoved");
+    }
+
+    // Aggregate bonded transactions are not supported, so nothing will be emitted.
+    public aggregateBondedAdded(): Observable<AggregateTransaction> {
+        return new Subject<AggregateTransaction>();
+    }
+
+    public aggregateBondedRemoved(): Observable<string> {
+        return new Subject<string>();
+    }
+
+    public status(unresolvedAddress: UnresolvedAddress, transactionHash?: string): Observable<TransactionStatusError> {
+        return this.statusSubject.pipe(
+            filter((status) => status.address.equals(unresolvedAddress)),
+            filter((status) => !transactionHash || status.hash === transactionHash.toUpperCase()),
+        );
+    }
+
+    public cosignatureAdded(): Observable<CosignatureSignedTransaction> {
+        return new Subject<CosignatureSignedTransaction>();
+    }
+}
+
+
+class SimulatedTransactionRepository implements TransactionRepository {
+
+    public constructor(private readonly chain: SimulatedChain) {}
+
+    public search(criteria: TransactionSearchCriteria): Observable<Page<Transaction>> {
+        return defer(() => of(toPage(
+            criteria.group === TransactionGroup.Confirmed ? this.chain.searchConfirmedTxs(criteria) : [],
+            criteria.pageSize,
+            criteria.pageNumber,
+        )));
+    }
+
+    public streamer(): never {
+        return notSupported("TransactionRepository.streamer");
+    }
+
+    public getTransaction(transactionId: string, transactionGroup: TransactionGroup): Observable<Transaction> {
+        return defer(() => {
+            const tx = transactionGroup === TransactionGroup.Confirmed
+                ? this.chain.getConfirmedTx(transactionId)
+                : transactionGroup === TransactionGroup.Unconfirmed
+                    ? this.chain.getPendingTx(transactionId)
+                    : undefined;
+            return tx ? of(tx) : notFound(`no resource exists with id '${transactionId}'`);
+        });
+    }
+
+    public getTransactionsById(transactionIds: string[], transactionGroup: TransactionGroup): Observable<Transaction[]> {
+        return defer(() => of(transactionIds
+            .map((hash) => transactionGroup === TransactionGroup.Confirmed
+                ? this.chain.getConfirmedTx(hash)
+                : this.chain.getPendingTx(hash))
+            .filter((tx): tx is Transaction => !!tx)
+        ));
+    }
+
+    public getTransactionEffectiveFee(transactionId: string): Observable<number> {
+        return defer(() => {
+            const tx = this.chain.getConfirmedTx(transactionId);
+            return tx
+                ? of(tx.size * (tx.transactionInfo?.feeMultiplier || 0))
+                : notFound(`no resource exists with id '${transactionId}'`);
+        });
+    }
+
+    public announce(signedTransaction: SignedTransaction): Observable<TransactionAnnounceResponse> {
+        return defer(() => of(this.chain.announce(signedTransaction)));
+    }
+
+    public announceAggregateBonded(): Observable<TransactionAnnounceResponse> {
+        return notSupported("TransactionRepository.announceAggregateBonded");
+    }
+
+    public announceAggregateBondedCosignature(): Observable<TransactionAnnounceResponse> {
+        return notSupported("TransactionRepository.announceAggregateBondedCosignature");
+    }
+}
+
+
+class SimulatedTransactionStatusRepository implements TransactionStatusRepository {
+
+    public constructor(private readonly chain: SimulatedChain) {}
+
+    public getTransactionStatus(transactionHash: string): Observable<TransactionStatus> {
+        return defer(() => {
+            const status = this.chain.getTransactionStatus(transactionHash);
+            return status ? of(status) : notFound(`no resource exists with id '${transactionHash}'`);
+        });
+    }
+
+    public getTransactionStatuses(transactionHashes: string[]): Observable<TransactionStatus[]> {
+        return defer(() => of(transactionHashes
+            .map((hash) => this.chain.getTransactionStatus(hash))
+            .filter((status): status is TransactionStatus => !!status)
+        ));
+    }
+}
+
+
+class SimulatedMetadataRepository implements MetadataRepository {
+
+    public constructor(private readonly chain: SimulatedChain) {}
+
+    private toMetadata(entry: BinMetadataEntry) {
+        return new Metadata(
+            entry.compositeHash,
+            new MetadataEntry(
+                entry.version,
+                entry.compositeHash,
+                entry.sourceAddress,
+                entry.targetAddress,
+                entry.scopedMetadataKey,
+                entry.metadataType,
+                // Same as MetadataHttp
+                Convert.decodeHex(Convert.uint8ToHex(entry.value)),
+                entry.targetId,
+            ),
+        );
+    }
+
+    public search(criteria: MetadataSearchCriteria): Observable<Page<Metadata>> {
+        return defer(() => of(toPage(
+            this.chain.searchMetadata(criteria).map((entry) => this.toMetadata(entry)),
+            criteria.pageSize,
+            criteria.pageNumber,
+        )));
+    }
+
+    public streamer(): never {
+        return notSupported("MetadataRepository.streamer");
+    }
+
+    public getMetadata(compositeHash: string): Observable<Metadata> {
+        return defer(() => {
+            const entry = this.chain.getMetadata(compositeHash);
+            return entry ? of(this.toMetadata(entry)) : notFound(`no resource exists with id '${compositeHash}'`);
+        });
+    }
+
+    public getMetadataMerkle(): Observable<MerkleStateInfo> {
+        return notSupported("MetadataRepository.getMetadataMerkle");
+    }
+}
+
+
+class SimulatedBinMetadataRepository implements BinMetadataRepository {
+
+    public constructor(private readonly chain: SimulatedChain) {}
+
+    public search(criteria: MetadataSearchCriteria): Observable<Page<BinMetadata>> {
+        return defer(() => of(toPage(
+            this.chain.searchMetadata(criteria).map((entry) => new BinMetadata(entry.compositeHash, entry)),
+            criteria.pageSize,
+            criteria.pageNumber,
+        )));
+    }
+
+    public streamer(): never {
+        return notSupported("BinMetadataRepository.streamer");
+    }
+
+    public getMetadata(compositeHash: string): Observable<BinMetadata> {
+        return defer(() => {
+            const entry = this.chain.getMetadata(compositeHash);
+            return entry
+                ? of(new BinMetadata(entry.compositeHash, entry))
+                : notFound(`no resource exists with id '${compositeHash}'`);
+        });
+    }
+
+    public getMetadataMerkle(): Observable<MerkleStateInfo> {
+        return notSupported("BinMetadataRepository.getMetadataMerkle");
+    }
+}
+
+
+class SimulatedAccountRepository implements AccountRepository {
+
+    public constructor(private readonly chain: SimulatedChain) {}
+
+    public search(): never {
+        return notSupported("AccountRepository.search");
+    }
+
+    public streamer(): never {
+        return notSupported("AccountRepository.streamer");
+    }
+
+    public getAccountInfo(address: Address): Observable<AccountInfo> {
+        return defer(() => {
+            const account = this.chain.getAccount(address);
+            return account
+                ? of(this.chain.createAccountInfo(account))
+                : notFound(`no resource exists with id '${address.plain()}'`);
+        });
+    }
+
+    public getAccountsInfo(addresses: Address[]): Observable<AccountInfo[]> {
+        return defer(() => of(addresses
+            .map((address) => this.chain.getAccount(address))
+            .filter((account): account is NonNullable<typeof account> => !!account)
+            .map((account) => this.chain.createAccountInfo(account))
+        ));
+    }
+
+    public getAccountInfoMerkle(): Observable<MerkleStateInfo> {
+        return notSupported("AccountRepository.getAccountInfoMerkle");
+    }
+}
+
+
+class SimulatedMosaicRepository implements MosaicRepository {
+
+    public constructor(private readonly chain: SimulatedChain) {}
+
+    public search(criteria: MosaicSearchCriteria): Observable<Page<MosaicInfo>> {
+        return defer(() => of(toPage(
+            this.chain.searchMosaics(criteria).map((mosaic) => this.chain.createMosaicInfo(mosaic)),
+            criteria.pageSize,
+            criteria.pageNumber,
+        )));
+    }
+
+    public streamer(): never {
+        return notSupported("MosaicRepository.streamer");
+    }
+
+    public getMosaic(mosaicId: MosaicId): Observable<MosaicInfo> {
+        return defer(() => {
+            const mosaic = this.chain.getMosaic(mosaicId);
+            return mosaic
+                ? of(this.chain.createMosaicInfo(mosaic))
+                : notFound(`no resource exists with id '${mosaicId.toHex()}'`);
+        });
+    }
+
+    public getMosaics(mosaicIds: MosaicId[]): Observable<MosaicInfo[]> {
+        return defer(() => of(mosaicIds
+            .map((mosaicId) => this.chain.getMosaic(mosaicId))
+            .filter((mosaic): mosaic is NonNullable<typeof mosaic> => !!mosaic)
+            .map((mosaic) => this.chain.createMosaicInfo(mosaic))
+        ));
+    }
+
+    public getMosaicMerkle(): Observable<MerkleStateInfo> {
+        return notSupported("MosaicRepository.getMosaicMerkle");
+    }
+}
+
+
+class SimulatedNamespaceRepository implements NamespaceRepository {
+
+    public constructor(private readonly chain: SimulatedChain, private readonly nodeUrl: string) {}
+
+    public search(criteria: NamespaceSearchCriteria): Observable<Page<NamespaceInfo>> {
+        return defer(() => of(toPage(
+            this.chain.searchNamespaces(criteria).map((namespace) => this.chain.createNamespaceInfo(namespace)),
+            criteria.pageSize,
+            criteria.pageNumber,
+        )));
+    }
+
+    public streamer(): never {
+        return notSupported("NamespaceRepository.streamer");
+    }
+
+    public getUrl() {
+        return this.nodeUrl;
+    }
+
+    public getAccountsNames(addresses: Address[]): Observable<AccountNames[]> {
+        return defer(() => of(addresses.map((address) => new AccountNames(address, this.chain.getAliasNames(address)))));
+    }
+
+    public getMosaicsNames(mosaicIds: MosaicId[]): Observable<MosaicNames[]> {
+        return defer(() => of(mosaicIds.map((mosaicId) => new MosaicNames(mosaicId, this.chain.getAliasNames(mosaicId)))));
+    }
+
+    public getNamespace(namespaceId: NamespaceId): Observable<NamespaceInfo> {
+        return defer(() => {
+            const namespace = this.chain.getNamespace(namespaceId);
+            return namespace
+                ? of(this.chain.createNamespaceInfo(namespace))
+                : notFound(`no resource exists with id '${namespaceId.toHex()}'`);
+        });
+    }
+
+    public getNamespaceMerkle(): never {
+        return notSupported("NamespaceRepository.getNamespaceMerkle");
+    }
+
+    public getNamespacesNames(namespaceIds: NamespaceId[]): Observable<NamespaceName[]> {
+        return defer(() => of(namespaceIds
+            .map((namespaceId) => this.chain.getNamespace(namespaceId))
+            .filter((namespace): namespace is NonNullable<typeof namespace> => !!namespace)
+            .map((namespace) => new NamespaceName(namespace.id, namespace.name, namespace.parentId))
+        ));
+    }
+
+    // Same as NamespaceHttp, throws when the namespace is not linked.
+    public getLinkedMosaicId(namespaceId: NamespaceId): Observable<MosaicId> {
+        return this.getNamespace(namespaceId).pipe(map((namespaceInfo) => {
+            if (!namespaceInfo.alias.mosaicId) {
+                throw new Error(`No mosaicId is linked to namespace '${namespaceInfo.levels[0].toHex()}'`);
+            }
+            return namespaceInfo.alias.mosaicId;
+        }));
+    }
+
+    public getLinkedAddress(namespaceId: NamespaceId): Observable<Address> {
+        return this.getNamespace(namespaceId).pipe(map((namespaceInfo) => {
+            if (!namespaceInfo.alias.address) {
+                throw new Error(`No address is linked to namespace '${namespaceInfo.levels[0].toHex()}'`);
+            }
+            return namespaceInfo.alias.address;
+        }));
+    }
+}
+
+
+class SimulatedNetworkRepository implements NetworkRepository {
+
+    public constructor(private readonly chain: SimulatedChain) {}
+
+    public getNetworkName(): Observable<NetworkName> {
+        return of(new NetworkName(
+            this.chain.config.network_type === NetworkType.MAIN_NET ? "mainnet" : "testnet",
+            "Simulated network",
+        ));
+    }
+
+    public getNetworkProperties(): Observable<NetworkConfiguration> {
+        return of(this.chain.networkProperties);
+    }
+
+    public getNetworkType(): Observable<NetworkType> {
+        return of(this.chain.config.network_type);
+    }
+
+    public getRentalFees(): Observable<RentalFees> {
+        return of(new RentalFees(UInt64.fromUint(0), UInt64.fromUint(0), UInt64.fromUint(0)));
+    }
+
+    public getTransactionFees(): Observable<TransactionFees> {
+        return defer(() => of(new TransactionFees(
+            this.chain.config.average_fee_multiplier,
+            this.chain.config.average_fee_multiplier,
+            this.chain.config.average_fee_multiplier,
+            this.chain.config.min_fee_multiplier,
+            this.chain.config.min_fee_multiplier,
+        )));
+    }
+}
+
+
+class SimulatedBlockRepository implements BlockRepository {
+
+    public constructor(private readonly chain: SimulatedChain) {}
+
+    public search(): never {
+        return notSupported("BlockRepository.search");
+    }
+
+    public streamer(): never {
+        return notSupported("BlockRepository.streamer");
+    }
+
+    public getBlockByHeight(height: UInt64): Observable<BlockInfo> {
+        return defer(() => {
+            const block = this.chain.getBlock(height);
+            return block
+                ? of(this.chain.createBlockInfo(block))
+                : notFound(`no resource exists with id '${height.toString()}'`);
+        });
+    }
+
+    public getMerkleTransaction(): never {
+        return notSupported("BlockRepository.getMerkleTransaction");
+    }
+
+    public getMerkleReceipts(): never {
+        return notSupported("BlockRepository.getMerkleReceipts");
+    }
+}
+
+
+class SimulatedChainRepository implements ChainRepository {
+
+    public constructor(private readonly chain: SimulatedChain) {}
+
+    // Every block is regarded as finalized
+    public getChainInfo(): Observable<ChainInfo> {
+        return defer(() => of(new ChainInfo(
+            this.chain.height,
+            this.chain.height,
+            UInt64.fromUint(0),
+            new FinalizedBlock(this.chain.height, "0".repeat(64), 1, 1),
+        )));
+    }
+}
+
+
+export class SimulatedRepositoryFactory implements RepositoryFactory, BinMetadataRepositoryFactory {
+
+    public constructor(public readonly chain: SimulatedChain, public readonly nodeUrl: string = chain.url) {}
+
+    // Every request fails while the node is offline
+    private guard<T extends object>(repository: T): T {
+        return new Proxy(repository, {
+            get: (target, prop, receiver) => {
+                const value = Reflect.get(target, prop, receiver);
+                return typeof value === "function"
+                    ? (...args: any[]) => this.chain.isNodeOffline(this.nodeUrl)
+                        ? throwError(() => connectionRefused(this.nodeUrl))
+                        : value.apply(target, args)
+                    : value;
+            },
+        });
+    }
+
+    private request<T>(value: () => T): Observable<T> {
+        return defer(() => this.chain.isNodeOffline(this.nodeUrl)
+            ? throwError(() => connectionRefused(this.nodeUrl))
+            : of(value()));
+    }
+
+    public getNetworkType(): Observable<NetworkType> {
+        return this.request(() => this.chain.config.network_type);
+    }
+
+    public getGenerationHash(): Observable<string> {
+        return this.request(() => this.chain.config.generation_hash);
+    }
+
+    public getEpochAdjustment(): Observable<number> {
+        return this.request(() => this.chain.config.epoch_adjustment);
+    }
+
+    public getCurrencies(): Observable<NetworkCurrencies> {
+        const currency = new Currency({
+            mosaicId: this.chain.currencyMosaicId,
+            namespaceId: new NamespaceId("symbol.xym"),
+            divisibility: 6,
+            transferable: true,
+            supplyMutable: false,
+            restrictable: false,
+        });
+        return this.request(() => new NetworkCurrencies(currency, currency));
+    }
+
+    public getNodePublicKey(): Observable<string | undefined> {
+        return this.request(() => this.chain.config.node_public_key);
+    }
+
+    public createAccountRepository(): AccountRepository {
+        return this.guard(new SimulatedAccountRepository(this.chain));
+    }
+
+    public createMetadataRepository(): MetadataRepository {
+        return this.guard(new SimulatedMetadataRepository(this.chain));
+    }
+
+    public createBinMetadataRepository(): BinMetadataRepository {
+        return this.guard(new SimulatedBinMetadataRepository(this.chain));
+    }
+
+    public createNetworkRepository(): NetworkRepository {
+        return this.guard(new SimulatedNetworkRepository(this.chain));
+    }
+
+    public createTransactionRepository(): TransactionRepository {
+        return this.guard(new SimulatedTransactionRepository(this.chain));
+    }
+
+    public createTransactionStatusRepository(): TransactionStatusRepository {
+        return this.guard(new SimulatedTransactionStatusRepository(this.chain));
+    }
+
+    public createListener(): IListener {
+        return this.chain.createListener(this.nodeUrl);
+    }
+
+    public createMultisigRepository(): MultisigRepository {
+        return notSupported("MultisigRepository");
+    }
+
+    public createBlockRepository(): BlockRepository {
+        return this.guard(new SimulatedBlockRepository(this.chain));
+    }
+
+    public createReceiptRepository(): ReceiptRepository {
+        return notSupported("ReceiptRepository");
+    }
+
+    public createChainRepository(): ChainRepository {
+        return this.guard(new SimulatedChainRepository(this.chain));
+    }
+
+    public createMosaicRepository(): MosaicRepository {
+        return this.guard(new SimulatedMosaicRepository(this.chain));
+    }
+
+    public createNamespaceRepository(): NamespaceRepository {
+        return this.guard(new SimulatedNamespaceRepository(this.chain, this.nodeUrl));
+    }
+
+    public createNodeRepository(): NodeRepository {
+        return notSupported("NodeRepository");
+    }
+
+    public createRestrictionAccountRepository(): RestrictionAccountRepository {
+        return notSupported("RestrictionAccountRepository");
+    }
+
+    public createRestrictionMosaicRepository(): RestrictionMosaicRepository {
+        return notSupported("RestrictionMosaicRepository");
+    }
+
+    public createHashLockRepository(): HashLockRepository {
+        return notSupported("HashLockRepository");
+    }
+
+    public createSecretLockRepository(): SecretLockRepository {
+        return notSupported("SecretLockRepository");
+    }
+
+    public createFinalizationRepository(): FinalizationRepository {
+        return notSupported("FinalizationRepository");
+    }
+}
@@ -1,5 +1,5 @@
 import assert from "assert";
-import {SignedAggregateTx, SymbolService} from "../services";
+import {SignedAggregateTx, SymbolService, SymbolServiceConfig} from "../services";
 import {
     Account,
     CosignatureTransaction,
@@ -9,6 +9,7 @@ import {
 } from "symbol-sdk";
 import {v4 as uuidv4} from "uuid";
 import {Logger} from "../libs";
+import {SimulatedChain, SimulatedChainConfig} from "./simulator";
 
 
 export namespace SymbolTest {
@@ -35,6 +36,34 @@ export namespace SymbolTest {
         return symbolService;
     };
 
+    export let simulator: SimulatedChain;
+
+    // Use in-memory simulated chain instead of NODE_URL (no network access)
+    export const initSimulator = (cfg?: Partial<SymbolServiceConfig>, chainCfg?: Partial<SimulatedChainConfig>) => {
+        Logger.init({ log_level: Logger.LogLevel.INFO });
+
+        simulator = new SimulatedChain(chainCfg);
+        symbolService = new SymbolService({
+            node_url: simulator.url,
+            fee_ratio: 0.35,
+            deadline_hours: 5,
+            batch_size: 100,
+            max_parallels: 10,
+            repo_factory: simulator.createRepositoryFactory(),
+            ...cfg,
+        });
+
+        return symbolService;
+    };
+
+    // Generate new account that has network currency on the simulated chain
+    export const generateFundedAccount = async (amount: number = 1000000000) => {
+        const { networkType } = await symbolService.getNetwork();
+        const account = Account.generateNewAccount(networkType);
+        simulator.fund(account.address, amount);
+        return account;
+    };
+
     export const getNamedAccounts = async () => {
         assert(process.env.SIGNER1_PRIVATE_KEY);
         assert(process.env.PAYER_PRIVATE_KEY);
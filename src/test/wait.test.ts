@@ -0,0 +1,102 @@
+import {SymbolTest} from "./utils";
+import {SymbolService} from "../services";
+import {SimulatedChain} from "./simulator";
+import {Account, AggregateTransaction, Deadline, Mosaic, UInt64} from "symbol-sdk";
+import moment from "moment";
+
+
+describe("Wait transactions", () => {
+    let symbolService: SymbolService;
+    let simulator: SimulatedChain;
+    let signerAccount: Account;
+    let targetAccount: Account;
+
+    beforeAll(async () => {
+        symbolService = SymbolTest.initSimulator({ expiry_margin_secs: 0, polling_interval_secs: 0.5 });
+        simulator = SymbolTest.simulator;
+        signerAccount = await SymbolTest.generateFundedAccount();
+        targetAccount = await SymbolTest.generateFundedAccount();
+    });
+
+    afterAll(() => {
+        simulator.stop();
+    });
+
+    // Build and sign an aggregate transaction with the deadline after secs
+    const signTransferTx = async (deadlineSecs: number, feeMultiplier: number) => {
+        const { epochAdjustment, networkType, networkGenerationHash } = await symbolService.getNetwork();
+        const transferTx = await symbolService.createTransferTx(
+            signerAccount.publicAccount,
+            targetAccount.address,
+            new Mosaic(simulator.currencyMosaicId, UInt64.fromUint(1)),
+            "wait",
+        );
+        const aggregateTx = AggregateTransaction.createComplete(
+            Deadline.createFromAdjustedValue(moment.now() - epochAdjustment * 1000 + deadlineSecs * 1000),
+            [ transferTx ],
+            networkType,
+            [],
+        ).setMaxFeeForAggregate(feeMultiplier, 0);
+
+        return signerAccount.sign(aggregateTx, networkGenerationHash);
+    };
+
+    it("Confirmed with SignedTransaction", async () => {
+        const signedTx = await signTransferTx(60, simulator.config.min_fee_multiplier);
+        await symbolService.announceTxWithCosignatures(signedTx, []);
+        const result = (await symbolService.waitTxsFor(signerAccount, signedTx)).shift();
+
+        expect(result?.error).toBeUndefined();
+        expect(result?.expired).toBeFalsy();
+    });
+
+    it("Timeout", async () => {
+        // The harvester never includes the transaction because of the low fee
+        const signedTx = await signTransferTx(60, 0);
+        await symbolService.announceTxWithCosignatures(signedTx, []);
+        const result = (await symbolService.waitTxsFor(signerAccount, signedTx.hash, "confirmed", 500)).shift();
+
+        expect(result?.timedOut).toBeTruthy();
+        expect(result?.expired).toBeFalsy();
+    });
+
+    it("Expired without status", async () => {
+        // The node has dropped the transaction
+        const signedTx = await signTransferTx(2, simulator.config.min_fee_multiplier);
+        const miner = setTimeout(() => simulator.mineBlock(), 2500);
+        const result = (await symbolService.waitTxsFor(signerAccount, signedTx, "confirmed", 10000)).shift();
+
+        expect(result?.error).toBe("Transaction expired without confirmation");
+        expect(result?.expired).toBeTruthy();
+        expect(result?.timedOut).toBeFalsy();
+        clearTimeout(miner);
+    });
+
+    it("Expired by status", async () => {
+        const signedTx = await signTransferTx(-1, simulator.config.min_fee_multiplier);
+        await symbolService.announceTxWithCosignatures(signedTx, []);
+        const result = (await symbolService.waitTxsFor(signerAccount, signedTx.hash)).shift();
+
+        expect(result?.error).toBe("Received error status: Failure_Core_Past_Deadline");
+        expect(result?.expired).toBeTruthy();
+    });
+
+    it("Not expired until the chain passes the deadline", async () => {
+        // The chain stalls while the local clock passes the deadline.
+        simulator.config.auto_mining = false;
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        const signedTx = await signTransferTx(1, simulator.config.min_fee_multiplier);
+        let result = (await symbolService.waitTxsFor(signerAccount, signedTx, "confirmed", 3000)).shift();
+
+        expect(result?.timedOut).toBeTruthy();
+        expect(result?.expired).toBeFalsy();
+
+        simulator.config.auto_mining = true;
+        simulator.mineBlock();
+        result = (await symbolService.waitTxsFor(signerAccount, signedTx, "confirmed", 3000)).shift();
+
+        expect(result?.error).toBe("Transaction expired without confirmation");
+        expect(result?.expired).toBeTruthy();
+    });
+
+});